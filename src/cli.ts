@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+/**
+ * @fileoverview `vite-cloudflare-tunnel` command line interface
+ *
+ * Inspect and tidy the Cloudflare resources created by the Vite plugin
+ * without starting Vite:
+ *
+ * ```bash
+ * npx vite-cloudflare-tunnel status
+ * npx vite-cloudflare-tunnel list
+ * npx vite-cloudflare-tunnel cleanup --dry-run
+ * npx vite-cloudflare-tunnel destroy my-dev-tunnel
+ * ```
+ *
+ * @license MIT
+ */
+
+import { z } from "zod";
+import { config as dotEnvConfig } from "dotenv";
+import {
+  createCloudflareApi,
+  listTunnelResources,
+  findOrphanedResources,
+  findAccount,
+  deleteTunnelResources,
+  type CloudflareApiCall,
+  type TunnelResources,
+} from "./index";
+
+const USAGE = `Usage: vite-cloudflare-tunnel <command> [options]
+
+Commands:
+  status [tunnelName]      Show whether the plugin's tunnels exist and are connected
+  list                     List tunnels, DNS records, certificates and Access apps tagged by the plugin
+  cleanup [--dry-run]      Delete tagged resources whose tunnel no longer exists
+  destroy <tunnelName>     Delete a tunnel together with its DNS records, certificates and Access apps
+
+Options:
+  --token <token>          Cloudflare API token (default: CLOUDFLARE_API_KEY)
+  --account <id|name>      Cloudflare account ID or name (default: the zone's account, else the first account of the token)
+  --zone <id>              Only scan this zone (default: every zone in the account)
+  --api-base-url <url>     Cloudflare API base URL
+  --dry-run                Print what would be deleted without deleting anything
+  --debug                  Log every API request
+  -h, --help               Show this help
+`;
+
+const COMMANDS = ["status", "list", "cleanup", "destroy"] as const;
+type Command = typeof COMMANDS[number];
+
+const ConnectionsSchema = z.array(z.object({ id: z.string() }).passthrough());
+
+interface CliArgs {
+  command?: string;
+  positionals: string[];
+  flags: Record<string, string | true>;
+}
+
+// Minimal argv parser: `--flag value`, `--flag=value` and boolean `--flag`
+function parseArgs(argv: string[]): CliArgs {
+  const booleanFlags = new Set(["dry-run", "debug", "help"]);
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "-h") {
+      flags.help = true;
+    } else if (arg.startsWith("--")) {
+      const [name, inlineValue] = arg.slice(2).split(/=(.*)/s);
+      if (inlineValue !== undefined) {
+        flags[name!] = inlineValue;
+      } else if (booleanFlags.has(name!) || argv[i + 1] === undefined || argv[i + 1]!.startsWith("--")) {
+        flags[name!] = true;
+      } else {
+        flags[name!] = argv[++i]!;
+      }
+    } else {
+      positionals.push(arg);
+    }
+  }
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, flags };
+}
+
+function stringFlag(args: CliArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+function printResources(group: TunnelResources) {
+  const tunnelState = group.tunnel ? `${group.tunnel.id}` : "tunnel not found";
+  console.log(`\n${group.tunnelName} (${tunnelState})`);
+  for (const record of group.dnsRecords) {
+    console.log(`  DNS          ${record.type} ${record.name} → ${record.content} [${record.zone_name}]`);
+  }
+  for (const cert of group.certificatePacks) {
+    const hosts = cert.hosts.filter((host) => !host.startsWith("cf-tunnel-plugin-"));
+    console.log(`  Certificate  ${cert.id} ${hosts.join(", ")} [${cert.zone_name}]`);
+  }
+  for (const app of group.accessApplications) {
+    console.log(`  Access app   ${app.domain ?? ""} (${app.name})`);
+  }
+}
+
+async function run(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  if (args.flags.help || !args.command) {
+    console.log(USAGE);
+    return args.command || args.flags.help ? 0 : 1;
+  }
+  // Usage mistakes are reported before any token or API call is needed
+  const command = args.command;
+  if (!(COMMANDS as readonly string[]).includes(command)) {
+    console.error(`[cloudflare-tunnel] ❌ Unknown command '${command}'\n`);
+    console.log(USAGE);
+    return 1;
+  }
+  if (command === "destroy" && !args.positionals[0]) {
+    console.error("[cloudflare-tunnel] ❌ Usage: vite-cloudflare-tunnel destroy <tunnelName>");
+    return 1;
+  }
+
+  dotEnvConfig();
+  const apiToken = stringFlag(args, "token") || process.env.CLOUDFLARE_API_KEY;
+  if (!apiToken) {
+    console.error("[cloudflare-tunnel] ❌ Missing API token. Pass --token or set CLOUDFLARE_API_KEY.");
+    return 1;
+  }
+
+  const cf: CloudflareApiCall = createCloudflareApi({
+    apiBaseUrl: stringFlag(args, "api-base-url"),
+    debugLog: args.flags.debug ? (...logArgs) => console.log("[cloudflare-tunnel:debug]", ...logArgs) : undefined,
+  });
+
+  const accounts = await cf(apiToken, "GET", "/accounts", undefined, z.array(z.object({ id: z.string(), name: z.string() })));
+  const zoneId = stringFlag(args, "zone");
+  const zones = zoneId
+    ? [
+        await cf(
+          apiToken,
+          "GET",
+          `/zones/${zoneId}`,
+          undefined,
+          z.object({ id: z.string(), name: z.string(), account: z.object({ id: z.string() }).optional() })
+        ),
+      ]
+    : undefined;
+
+  const accountFlag = stringFlag(args, "account");
+  const available = accounts.map((account) => `${account.name} (${account.id})`).join(", ");
+  let accountId = accountFlag ? findAccount(accounts, accountFlag)?.id : zones?.[0]?.account?.id;
+  if (accountFlag && !accountId) {
+    // Tokens without account read access can't list accounts, so trust anything that looks like an ID
+    if (!/^[0-9a-f]{32}$/i.test(accountFlag)) {
+      throw new Error(`Account '${accountFlag}' not found. Accounts available to this token: ${available || "none"}`);
+    }
+    accountId = accountFlag;
+  }
+  if (!accountId) {
+    accountId = accounts[0]?.id;
+    if (accounts.length > 1) {
+      console.warn(`[cloudflare-tunnel] ⚠️  Using ${accounts[0]!.name}; pass --account to choose one of: ${available}`);
+    }
+  }
+  if (!accountId) throw new Error("Unable to determine Cloudflare account ID");
+  const resources = await listTunnelResources(cf, apiToken, accountId, zones);
+  const dryRun = args.flags["dry-run"] === true;
+
+  // A tunnel may exist without any tagged resource left, so look it up by name too
+  const findTunnelByName = async (tunnelName: string) => {
+    const tunnels = await cf(
+      apiToken,
+      "GET",
+      `/accounts/${accountId}/cfd_tunnel?name=${encodeURIComponent(tunnelName)}&is_deleted=false`,
+      undefined,
+      z.array(z.object({ id: z.string(), name: z.string(), account_tag: z.string(), created_at: z.string() }))
+    );
+    return tunnels[0];
+  };
+
+  switch (command as Command) {
+    case "list": {
+      if (resources.length === 0) {
+        console.log("No resources created by vite-plugin-cloudflare-tunnel were found.");
+        return 0;
+      }
+      resources.forEach(printResources);
+      return 0;
+    }
+
+    case "status": {
+      const [tunnelName] = args.positionals;
+      let groups = tunnelName
+        ? resources.filter((group) => group.tunnelName === tunnelName)
+        : resources;
+      if (tunnelName && groups.length === 0) {
+        const tunnel = await findTunnelByName(tunnelName);
+        if (tunnel) groups = [{ tunnelName, tunnel, dnsRecords: [], certificatePacks: [], accessApplications: [] }];
+      }
+      if (groups.length === 0) {
+        console.log(tunnelName ? `Tunnel '${tunnelName}' not found.` : "No plugin tunnels found.");
+        return tunnelName ? 1 : 0;
+      }
+      for (const group of groups) {
+        let state = "❌ missing";
+        if (group.tunnel) {
+          const connections = await cf(
+            apiToken,
+            "GET",
+            `/accounts/${accountId}/cfd_tunnel/${group.tunnel.id}/connections`,
+            undefined,
+            ConnectionsSchema
+          ).catch(() => group.tunnel!.connections ?? []);
+          state = connections.length > 0 ? `✅ connected (${connections.length} connections)` : "💤 idle";
+        }
+        const hostnames = group.dnsRecords.map((record) => record.name).join(", ") || "no DNS records";
+        console.log(`${group.tunnelName.padEnd(24)} ${state.padEnd(32)} ${hostnames}`);
+      }
+      return 0;
+    }
+
+    case "cleanup": {
+      const orphans = findOrphanedResources(resources);
+      if (orphans.length === 0) {
+        console.log("✨ Nothing to clean up.");
+        return 0;
+      }
+      console.log(dryRun ? "Would delete:" : "Deleting:");
+      orphans.forEach(printResources);
+      if (dryRun) return 0;
+      let failures = 0;
+      for (const group of orphans) {
+        failures += (await deleteTunnelResources(cf, apiToken, accountId, group)).length;
+      }
+      return failures > 0 ? 1 : 0;
+    }
+
+    case "destroy": {
+      const tunnelName = args.positionals[0]!;
+      const group: TunnelResources = resources.find((entry) => entry.tunnelName === tunnelName) ?? {
+        tunnelName,
+        dnsRecords: [],
+        certificatePacks: [],
+        accessApplications: [],
+      };
+      group.tunnel ??= await findTunnelByName(tunnelName);
+      if (!group.tunnel && group.dnsRecords.length + group.certificatePacks.length + group.accessApplications.length === 0) {
+        console.error(`[cloudflare-tunnel] ❌ Tunnel '${tunnelName}' not found`);
+        return 1;
+      }
+      console.log(dryRun ? "Would delete:" : "Deleting:");
+      printResources(group);
+      if (dryRun) return 0;
+      const failures = await deleteTunnelResources(cf, apiToken, accountId, group);
+      return failures.length > 0 ? 1 : 0;
+    }
+  }
+}
+
+run(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    // API errors already carry the prefix
+    console.error(`[cloudflare-tunnel] ❌ ${(error as Error).message.replace(/^\[cloudflare-tunnel\]\s*/, "")}`);
+    process.exitCode = 1;
+  }
+);
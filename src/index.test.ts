@@ -0,0 +1,210 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import cloudflareTunnel, {
+  createCloudflareApi,
+  findOrphanedResources,
+  parseCloudflaredLine,
+  type Tunnel,
+  type TunnelLogger,
+  type TunnelResources,
+} from "./index";
+
+const tunnel = (overrides: Partial<Tunnel> & Pick<Tunnel, "id" | "name">): Tunnel => ({
+  account_tag: "acc-1",
+  created_at: "2025-01-01T00:00:00Z",
+  connections: [],
+  ...overrides,
+});
+
+const resources = (tunnelName: string, overrides: Partial<TunnelResources> = {}): TunnelResources => ({
+  tunnelName,
+  dnsRecords: [],
+  certificatePacks: [],
+  accessApplications: [],
+  ...overrides,
+});
+
+const cname = (id: string, name: string, tunnelId: string) => ({
+  id,
+  type: "CNAME",
+  name,
+  content: `${tunnelId}.cfargotunnel.com`,
+  proxied: true,
+  zone_id: "z",
+  zone_name: "example.com",
+});
+
+/** JSON response in the Cloudflare v4 envelope */
+const apiResponse = (result: unknown, extra: Record<string, unknown> = {}) =>
+  new Response(JSON.stringify({ success: true, errors: [], messages: [], result, ...extra }), {
+    headers: { "content-type": "application/json" },
+  });
+
+describe("parseCloudflaredLine", () => {
+  it("splits timestamp, level, message and fields", () => {
+    const line = parseCloudflaredLine(
+      '2025-01-01T12:00:00Z INF Registered tunnel connection connIndex=0 connection=abc event=0 ip=198.41.200.13 location=lhr01 protocol=quic'
+    );
+    expect(line).toEqual({
+      timestamp: "2025-01-01T12:00:00Z",
+      level: "info",
+      message: "Registered tunnel connection",
+      fields: { connIndex: "0", connection: "abc", event: "0", ip: "198.41.200.13", location: "lhr01", protocol: "quic" },
+    });
+  });
+
+  it("unquotes quoted field values and leaves '=' inside the message alone", () => {
+    const line = parseCloudflaredLine('2025-01-01T12:00:00Z ERR Request failed with a=b inside error="dial tcp: \\"refused\\"" connIndex=2');
+    expect(line.level).toBe("error");
+    expect(line.message).toBe("Request failed with a=b inside");
+    expect(line.fields).toEqual({ error: 'dial tcp: "refused"', connIndex: "2" });
+  });
+
+  it("returns unformatted lines as a bare message", () => {
+    expect(parseCloudflaredLine("  |  https://random-words.trycloudflare.com  |  ")).toEqual({
+      message: "|  https://random-words.trycloudflare.com  |",
+      fields: {},
+    });
+  });
+});
+
+describe("logger option", () => {
+  it("rejects an object without info, warn and error methods", () => {
+    expect(() => cloudflareTunnel({ logger: { info() {}, warn() {} } as unknown as TunnelLogger })).toThrow(
+      "[cloudflare-tunnel] logger must be 'vite' or an object with info, warn and error methods"
+    );
+  });
+
+  it("accepts a custom logger", () => {
+    expect(() => cloudflareTunnel({ logger: { info() {}, warn() {}, error() {} } })).not.toThrow();
+  });
+});
+
+describe("findOrphanedResources", () => {
+  it("reports DNS records pointing elsewhere and every resource of a deleted tunnel", () => {
+    const live = tunnel({ id: "t-live", name: "live" });
+    const orphans = findOrphanedResources([
+      resources("live", {
+        tunnel: live,
+        dnsRecords: [
+          cname("r-ok", "dev.example.com", "t-live"),
+          cname("r-old", "old.example.com", "t-old"),
+        ],
+        certificatePacks: [{ id: "c-live", zone_id: "z", zone_name: "example.com", hosts: ["example.com"] }],
+      }),
+      resources("gone", {
+        dnsRecords: [
+          cname("r-gone", "gone.example.com", "t-gone"),
+        ],
+        certificatePacks: [{ id: "c-gone", zone_id: "z", zone_name: "example.com", hosts: ["example.com"] }],
+        accessApplications: [{ id: "a-gone", name: "vite-plugin-cloudflare-tunnel:gone" }],
+      }),
+      resources("clean", { tunnel: tunnel({ id: "t-clean", name: "clean" }) }),
+    ]);
+
+    expect(orphans.map((group) => ({
+      tunnelName: group.tunnelName,
+      dnsRecords: group.dnsRecords.map((record) => record.id),
+      certificatePacks: group.certificatePacks.map((cert) => cert.id),
+      accessApplications: group.accessApplications.map((app) => app.id),
+    }))).toEqual([
+      { tunnelName: "live", dnsRecords: ["r-old"], certificatePacks: [], accessApplications: [] },
+      { tunnelName: "gone", dnsRecords: ["r-gone"], certificatePacks: ["c-gone"], accessApplications: ["a-gone"] },
+    ]);
+  });
+});
+
+describe("createCloudflareApi", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("follows result_info and returns every page of a list", async () => {
+    const fetchImpl = vi.fn(async (input: RequestInfo | URL) => {
+      const page = Number(new URL(String(input)).searchParams.get("page") ?? 1);
+      return apiResponse([`item-${page}a`, `item-${page}b`], { result_info: { page, per_page: 2, total_pages: 3 } });
+    });
+    const cf = createCloudflareApi({ apiBaseUrl: "https://api.test/client/v4/", fetch: fetchImpl as typeof fetch });
+
+    await expect(cf("token", "GET", "/zones?name=example.com")).resolves.toEqual([
+      "item-1a", "item-1b", "item-2a", "item-2b", "item-3a", "item-3b",
+    ]);
+    expect(fetchImpl.mock.calls.map(([input]) => String(input))).toEqual([
+      "https://api.test/client/v4/zones?name=example.com",
+      "https://api.test/client/v4/zones?name=example.com&page=2",
+      "https://api.test/client/v4/zones?name=example.com&page=3",
+    ]);
+  });
+
+  it("does not paginate when the URL selects a page", async () => {
+    const fetchImpl = vi.fn(async () => apiResponse(["only"], { result_info: { page: 1, per_page: 1, total_pages: 5 } }));
+    const cf = createCloudflareApi({ apiBaseUrl: "https://api.test", fetch: fetchImpl as typeof fetch });
+
+    await expect(cf("token", "GET", "/zones?per_page=1")).resolves.toEqual(["only"]);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries rate-limited requests after Retry-After, including POSTs", async () => {
+    vi.useFakeTimers();
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(new Response("slow down", { status: 429, headers: { "retry-after": "2" } }))
+      .mockResolvedValueOnce(apiResponse({ id: "tunnel-1" }));
+    const cf = createCloudflareApi({ apiBaseUrl: "https://api.test", fetch: fetchImpl });
+
+    const result = cf("token", "POST", "/accounts/acc-1/cfd_tunnel", { name: "dev" });
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ id: "tunnel-1" });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries idempotent requests on 5xx and network errors with back-off", async () => {
+    vi.useFakeTimers();
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(new Response("bad gateway", { status: 502 }))
+      .mockRejectedValueOnce(new Error("socket hang up"))
+      .mockResolvedValueOnce(apiResponse("token"));
+    const cf = createCloudflareApi({ apiBaseUrl: "https://api.test", fetch: fetchImpl });
+
+    const result = cf("token", "GET", "/accounts/acc-1/cfd_tunnel/t-1/token");
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("token");
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry a non-idempotent request that failed with a 5xx", async () => {
+    const fetchImpl = vi.fn(async () => new Response("oops", { status: 500, statusText: "Internal Server Error" }));
+    const cf = createCloudflareApi({ apiBaseUrl: "https://api.test", fetch: fetchImpl as typeof fetch });
+
+    await expect(cf("token", "POST", "/zones/z/dns_records", {})).rejects.toThrow(
+      "[cloudflare-tunnel] API request failed: 500 Internal Server Error. Response: oops"
+    );
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxRetries", async () => {
+    vi.useFakeTimers();
+    const fetchImpl = vi.fn(async () => new Response("unavailable", { status: 503, statusText: "Service Unavailable" }));
+    const cf = createCloudflareApi({ apiBaseUrl: "https://api.test", fetch: fetchImpl as typeof fetch, maxRetries: 2 });
+
+    const result = cf("token", "GET", "/accounts");
+    const assertion = expect(result).rejects.toThrow("503 Service Unavailable");
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it("turns success: false payloads into errors", async () => {
+    const fetchImpl = vi.fn(async () => new Response(JSON.stringify({
+      success: false,
+      errors: [{ code: 1003, message: "Invalid or missing zone id." }],
+      messages: [],
+      result: null,
+    })));
+    const cf = createCloudflareApi({ apiBaseUrl: "https://api.test", fetch: fetchImpl as typeof fetch });
+
+    await expect(cf("token", "GET", "/zones/nope")).rejects.toThrow(
+      "[cloudflare-tunnel] Cloudflare API error: Invalid or missing zone id."
+    );
+  });
+});
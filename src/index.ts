@@ -10,19 +10,73 @@
  * @license MIT
  */
 
-import type { Plugin, ViteDevServer } from "vite";
+import type { CLIShortcut, Connect, Plugin, PreviewServer, ViteDevServer } from "vite";
 import { bin, install } from "cloudflared";
 import fs from "node:fs/promises";
-import { spawn, exec } from "node:child_process";
+import { openSync, closeSync, fstatSync, mkdirSync, readFileSync } from "node:fs";
+import os from "node:os";
+import net, { type AddressInfo } from "node:net";
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import path from "node:path";
+import { PassThrough, type Duplex } from "node:stream";
+import { formatWithOptions } from "node:util";
+import { spawn, exec, execFileSync } from "node:child_process";
 import { z } from "zod";
 import { config as dotEnvConfig } from "dotenv";
+import QRCode from "qrcode";
+import { getDomain } from "tldts";
 
 
 // import { inspect } from "util";
 // // log infinite depth objects using node settings
 // inspect.defaultOptions.depth = null;
 
-const INFO_LOG_REGEX = /^.*Z INF .*/;
+const DEFAULT_API_BASE_URL = "https://api.cloudflare.com/client/v4";
+// Custom HMR events used to keep the virtual module in sync with the tunnel
+const TUNNEL_STATE_EVENT = "cloudflare-tunnel:state";
+const TUNNEL_STATE_REQUEST_EVENT = "cloudflare-tunnel:request-state";
+// cloudflared messages reporting that a single edge connection went away
+const EDGE_CONNECTION_LOST_REGEX = /^(Unregistered tunnel connection|Connection terminated|Serve tunnel error|Lost connection)/i;
+// Matches both current ("Registered tunnel connection") and legacy ("Connection <id> registered") output
+const CONNECTION_REGISTERED_REGEX = /Registered tunnel connection|Connection \S+ registered/i;
+// Prefixes used to tag resources created by the plugin (DNS comments / certificate hostnames)
+const DNS_COMMENT_PREFIX = "vite-plugin-cloudflare-tunnel:";
+const SSL_TAG_PREFIX = "cf-tunnel-plugin-";
+// cloudflared prints "<RFC3339 time> <LVL> <message> key=value ..."
+const CLOUDFLARED_LINE_REGEX = /^(\d{4}-\d{2}-\d{2}T\S+)\s+(DBG|INF|WRN|ERR|FTL)\s+(.*)$/;
+const CLOUDFLARED_FIELD_REGEX = /\s+([A-Za-z][\w.-]*)=("(?:[^"\\]|\\.)*"|\S*)$/;
+const CLOUDFLARED_LEVELS = { DBG: "debug", INF: "info", WRN: "warn", ERR: "error", FTL: "fatal" } as const;
+const LOG_LEVEL_RANK = { debug: 0, info: 1, warn: 2, error: 3, fatal: 4 } as const;
+const CONSOLE_LOGGER = {
+  info: (message: string) => console.log(message),
+  warn: (message: string) => console.warn(message),
+  error: (message: string) => console.error(message),
+  debug: (message: string) => console.log(message),
+};
+// Placeholders accepted in hostname / tunnelName templates
+const NAME_TEMPLATE_REGEX = /\{([a-zA-Z]+)\}/g;
+// Query parameter and cookie used by the `auth` gate
+const AUTH_QUERY_PARAM = "tunnel_token";
+const AUTH_COOKIE_NAME = "vite_tunnel_auth";
+// Shortcuts this plugin added to Vite's CLI; Vite re-binds the previous options
+// after a server restart, so the old plugin instance's entries are replaced
+const TUNNEL_SHORTCUTS = new WeakSet<object>();
+// Connector health from cloudflared's metrics server (JSON, served to local requests only)
+const METRICS_PATH = "/__tunnel/metrics";
+const METRICS_POLL_INTERVAL_MS = 1000;
+// How long after the server starts listening printUrls may take before a
+// quick tunnel URL is announced on its own
+const PRINT_URLS_GRACE_MS = 1000;
+// Request inspector routes (served to local requests only) and replay marker header
+const INSPECT_PATH = "/__tunnel/inspect";
+const REPLAY_HEADER = "x-tunnel-replay";
+// Connection-level headers that must not be copied into a replayed request
+const REPLAY_SKIPPED_HEADERS = new Set(["host", "connection", "content-length", "transfer-encoding", "keep-alive", "upgrade", "cf-connecting-ip"]);
+// Credentials are kept in memory for replay but never written to the cache file
+const REDACTED_HEADERS = new Set(["authorization", "proxy-authorization", "cookie"]);
+const REDACTED_VALUE = "[redacted]";
+// Stand-in for the ID of a tunnel that a dry run would have created
+const DRY_RUN_TUNNEL_ID = "<new-tunnel-id>";
 
 // Zod schemas for Cloudflare API responses
 const CloudflareErrorSchema = z.object({
@@ -35,6 +89,12 @@ const CloudflareApiResponseSchema = z.object({
   errors: z.array(CloudflareErrorSchema).optional(),
   messages: z.array(z.string()).optional(),
   result: z.unknown(),
+  result_info: z.object({
+    page: z.number().optional(),
+    per_page: z.number().optional(),
+    total_pages: z.number().optional(),
+    total_count: z.number().optional(),
+  }).nullish(),
 });
 
 const AccountSchema = z.object({
@@ -45,6 +105,20 @@ const AccountSchema = z.object({
 const ZoneSchema = z.object({
   id: z.string(),
   name: z.string(),
+  account: z.object({ id: z.string(), name: z.string().optional() }).optional(),
+});
+
+/**
+ * An edge connection of a tunnel, as listed in `Tunnel.connections`
+ */
+export const TunnelConnectionSchema = z.object({
+  id: z.string(),
+  colo_name: z.string().optional(),
+  client_id: z.string().optional(),
+  client_version: z.string().optional(),
+  origin_ip: z.string().optional(),
+  opened_at: z.string().optional(),
+  is_pending_reconnect: z.boolean().optional(),
 });
 
 const TunnelSchema = z.object({
@@ -52,9 +126,20 @@ const TunnelSchema = z.object({
   name: z.string(),
   account_tag: z.string(),
   created_at: z.string(),
-  connections: z.array(z.unknown()).optional(),
+  connections: z.array(TunnelConnectionSchema).optional(),
+  conns_active_at: z.string().nullish(),
+  conns_inactive_at: z.string().nullish(),
+  remote_config: z.boolean().optional(),
+});
+
+const TokenVerificationSchema = z.object({
+  id: z.string(),
+  status: z.string(),
 });
 
+// Decoded tunnel token: account tag, tunnel ID and tunnel secret
+const TunnelTokenSchema = z.object({ a: z.string(), t: z.string(), s: z.string() });
+
 const DNSRecordSchema = z.object({
   id: z.string(),
   type: z.string(),
@@ -64,6 +149,52 @@ const DNSRecordSchema = z.object({
   comment: z.string().nullish(),
 });
 
+/**
+ * Remote configuration of a tunnel (`/cfd_tunnel/:id/configurations`)
+ */
+export const TunnelConfigurationSchema = z.object({
+  tunnel_id: z.string(),
+  version: z.number().optional(),
+  source: z.string().optional(),
+  created_at: z.string().optional(),
+  config: z.object({
+    ingress: z.array(z.object({
+      hostname: z.string().optional(),
+      path: z.string().optional(),
+      service: z.string(),
+    })).optional(),
+  }).nullable(),
+});
+
+/**
+ * An edge certificate pack (`/zones/:id/ssl/certificate_packs`)
+ */
+export const CertificatePackSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  hosts: z.array(z.string()),
+  status: z.string(),
+  certificate_authority: z.string().nullish(),
+  validation_method: z.string().nullish(),
+  validity_days: z.number().nullish(),
+});
+
+/**
+ * Total TLS settings of a zone (`/zones/:id/acm/total_tls`)
+ */
+export const TotalTlsSchema = z.object({
+  enabled: z.boolean(),
+  certificate_authority: z.string().nullish(),
+  validity_period: z.number().nullish(),
+});
+
+const AccessApplicationSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  domain: z.string().nullish(),
+  type: z.string().optional(),
+});
+
 // Type definitions (exported for potential external use)
 export type CloudflareApiResponse<T = unknown> = z.infer<typeof CloudflareApiResponseSchema> & {
   result: T;
@@ -72,6 +203,166 @@ export type Account = z.infer<typeof AccountSchema>;
 export type Zone = z.infer<typeof ZoneSchema>;
 export type Tunnel = z.infer<typeof TunnelSchema>;
 export type DNSRecord = z.infer<typeof DNSRecordSchema>;
+export type AccessApplication = z.infer<typeof AccessApplicationSchema>;
+export type TunnelConnection = z.infer<typeof TunnelConnectionSchema>;
+export type TunnelConfiguration = z.infer<typeof TunnelConfigurationSchema>;
+export type CertificatePack = z.infer<typeof CertificatePackSchema>;
+export type TotalTls = z.infer<typeof TotalTlsSchema>;
+
+/**
+ * Lifecycle state of the tunnel as exposed to the virtual module
+ */
+export type TunnelStatus = 'starting' | 'connected' | 'reconnecting' | 'down' | 'disabled';
+
+/**
+ * Information passed to the `onTunnelReady` callback
+ */
+export interface TunnelReadyInfo {
+  /** Public URL of the tunnel */
+  url: string;
+  /** Tunnel mode that produced the connection */
+  mode: 'quick' | 'named';
+  /** Public hostnames served by the tunnel */
+  hostnames: string[];
+}
+
+/**
+ * Connector health read from cloudflared's metrics server
+ */
+export interface TunnelMetrics {
+  /** Edge connections cloudflared reports as ready (`/ready`) */
+  readyConnections: number;
+  /** Requests proxied since cloudflared started */
+  totalRequests: number;
+  /** Requests that could not be proxied to the local server */
+  requestErrors: number;
+  /** `requestErrors / totalRequests` (0 before the first request) */
+  errorRate: number;
+  /** ISO timestamp of the last successful poll */
+  updatedAt: string;
+}
+
+/**
+ * A request captured by the request inspector
+ */
+export interface InspectedRequest {
+  id: string;
+  /** ISO timestamp at which the request arrived */
+  time: string;
+  method: string;
+  url: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Request body, UTF-8 text or base64 for binary payloads */
+  body: string;
+  bodyEncoding: 'utf8' | 'base64';
+  /** True when the body exceeded `inspect.maxBodyBytes` */
+  bodyTruncated: boolean;
+  /** Response status (undefined when the client disconnected first) */
+  status?: number;
+  durationMs?: number;
+  /** ID of the captured request this one replayed */
+  replayOf?: string;
+}
+
+/**
+ * Information passed to the `onTunnelExit` callback
+ */
+export interface TunnelExitInfo {
+  /** Exit code of the cloudflared process (null when killed by a signal) */
+  code: number | null;
+  /** Signal that terminated the process, if any */
+  signal: NodeJS.Signals | null;
+  /** True when the plugin itself stopped the process (shutdown, restart or config change) */
+  expected: boolean;
+}
+
+/**
+ * Destination for plugin log output. Vite's `server.config.logger` (or the
+ * result of Vite's `createLogger()`) satisfies this interface.
+ */
+export interface TunnelLogger {
+  info(message: string): void;
+  warn(message: string): void;
+  error(message: string): void;
+  /** Used for `debug: true` output; falls back to `info` when missing */
+  debug?(message: string): void;
+}
+
+/**
+ * A classified line of cloudflared output
+ */
+export interface CloudflaredLogLine {
+  /** Timestamp printed by cloudflared, if any */
+  timestamp?: string;
+  /** Level printed by cloudflared; undefined for unformatted lines such as banners */
+  level?: 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+  /** Message text without timestamp, level and fields */
+  message: string;
+  /** Trailing `key=value` pairs (e.g. `connIndex`, `location`, `ip`) */
+  fields: Record<string, string>;
+}
+
+/**
+ * Restart policy for the cloudflared supervisor
+ */
+interface RestartOptions {
+  /**
+   * Maximum consecutive restart attempts before giving up.
+   * The counter resets once a restarted tunnel stays connected for 10 seconds.
+   * @default 5
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first restart attempt; doubled for every further attempt
+   * @default 1000
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between restart attempts
+   * @default 30000
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Ways to authenticate requests arriving through the tunnel
+ */
+interface TunnelAuthOptions {
+  /** Require HTTP basic auth with these credentials */
+  basic?: { username: string; password: string };
+
+  /**
+   * Shared token, accepted once as `?tunnel_token=<token>` (then remembered
+   * in a cookie) or via an existing session cookie
+   */
+  token?: string;
+
+  /**
+   * Print a login link on startup that works exactly once and then keeps the
+   * browser signed in with a cookie
+   * @default true when neither `basic` nor `token` is set
+   */
+  oneTimeLink?: boolean;
+}
+
+/**
+ * Request inspector settings
+ */
+interface InspectOptions {
+  /**
+   * Number of requests kept (oldest are dropped first)
+   * @default 100
+   */
+  maxRequests?: number;
+
+  /**
+   * Bytes of each request body that are stored
+   * @default 65536
+   */
+  maxBodyBytes?: number;
+}
 
 /**
  * Base configuration options shared between named and quick tunnel modes
@@ -79,7 +370,8 @@ export type DNSRecord = z.infer<typeof DNSRecordSchema>;
 interface BaseTunnelOptions {
   /** 
    * Local port your dev server listens on
-   * If not specified, will automatically use Vite's configured port
+   * If not specified, will automatically use Vite's configured port.
+   * Ignored by `vite preview`, which always tunnels to the preview port.
    * @default undefined (auto-detect from Vite config)
    */
   port?: number;
@@ -91,8 +383,8 @@ interface BaseTunnelOptions {
   logFile?: string;
   
   /** 
-   * Log level for cloudflared process
-   * @default undefined (uses cloudflared default)
+   * Minimum level of cloudflared output forwarded to the log
+   * @default "warn" ("info" with `debug`)
    */
   logLevel?: 'debug' | 'info' | 'warn' | 'error' | 'fatal';
 
@@ -104,6 +396,22 @@ interface BaseTunnelOptions {
    */
   debug?: boolean;
 
+  /**
+   * Where plugin and cloudflared output is written: a custom
+   * `{ info, warn, error, debug? }` object, Vite's logger (pass
+   * `server.config.logger`/`createLogger()`, or `'vite'` to use the logger of
+   * the current Vite instance) or the console by default.
+   * @default console
+   */
+  logger?: TunnelLogger | 'vite';
+
+  /**
+   * `'json'` writes one JSON object per line (`time`, `level`, `source`,
+   * `message` plus cloudflared fields), e.g. for CI log collectors.
+   * @default "text"
+   */
+  logFormat?: 'text' | 'json';
+
   /**
    * Enable or disable the tunnel plugin. When set to `false` the plugin is
    * completely disabled — cloudflared will NOT be downloaded or started but
@@ -111,6 +419,138 @@ interface BaseTunnelOptions {
    * @default true
    */
   enabled?: boolean;
+
+  /**
+   * Keep cloudflared running after Vite exits so the next dev server can
+   * re-use the same connector (and, in quick mode, the same URL).
+   * cloudflared runs detached; its PID, config hash and URL are recorded in a
+   * lockfile inside Vite's cache directory (`node_modules/.vite` by default).
+   * A new dev server attaches when its configuration hash matches and replaces
+   * the daemon otherwise.
+   * @default false
+   */
+  persistent?: boolean;
+
+  /**
+   * Restart cloudflared with exponential back-off when it exits unexpectedly.
+   * Pass `false` to disable, or an object to tune the restart policy.
+   * @default true
+   */
+  restart?: boolean | RestartOptions;
+
+  /**
+   * Require authentication for requests arriving through the tunnel (matched
+   * by their Host header); requests to localhost are never challenged.
+   * `true` only enables the one-time login link.
+   * @default false
+   */
+  auth?: boolean | TunnelAuthOptions;
+
+  /**
+   * Record requests arriving through the tunnel (method, headers, body,
+   * response status and timing) and browse or replay them at
+   * `/__tunnel/inspect` on the local server. Captures are kept in Vite's
+   * cache directory across restarts.
+   * @default false
+   */
+  inspect?: boolean | InspectOptions;
+
+  /**
+   * Show a small tunnel status panel in the page during development: state,
+   * public URL with a copy button, a QR code for phones and the number of
+   * active edge connections. Injected into `index.html` via `transformIndexHtml`.
+   * @default false
+   */
+  overlay?: boolean;
+
+  /**
+   * Print the public URL as a QR code in the terminal once it is known
+   * (quick tunnel URL received, or named tunnel connected)
+   * @default false
+   */
+  printQrCode?: boolean;
+
+  /**
+   * Copy the public URL to the system clipboard once it is known. Uses
+   * `pbcopy` (macOS), `clip` (Windows) or `wl-copy`/`xclip`/`xsel` (Linux).
+   * @default false
+   */
+  copyToClipboard?: boolean;
+
+  /**
+   * Called when cloudflared reports its first registered edge connection.
+   * Useful for registering webhook URLs as soon as the tunnel is live.
+   */
+  onTunnelReady?: (info: TunnelReadyInfo) => void | Promise<void>;
+
+  /**
+   * Called when the public tunnel URL changes, e.g. after a quick tunnel is
+   * restarted because Vite picked a different port.
+   */
+  onTunnelUrlChange?: (url: string, previousUrl: string) => void | Promise<void>;
+
+  /**
+   * Called whenever the cloudflared child process exits.
+   */
+  onTunnelExit?: (info: TunnelExitInfo) => void | Promise<void>;
+}
+
+/**
+ * A single ingress rule routing a public hostname (and optional path) to a
+ * local service
+ */
+interface IngressRule {
+  /**
+   * Public hostname for this rule (e.g., "api.example.com")
+   * Must be a domain in your Cloudflare account
+   */
+  hostname: string;
+
+  /**
+   * Optional path regex the request path must match (e.g., "/ws")
+   * Rules with a path are evaluated before rules without one for the same hostname
+   */
+  path?: string;
+
+  /**
+   * Local service the rule forwards to (e.g., "http://localhost:8787")
+   * @default the Vite dev server
+   */
+  service?: string;
+}
+
+/**
+ * Cloudflare Access protection for the tunnel hostnames
+ */
+interface AccessOptions {
+  /**
+   * Email domains whose users may sign in (e.g., ["example.com"])
+   */
+  emailDomains?: string[];
+
+  /**
+   * Individual email addresses that may sign in
+   */
+  emails?: string[];
+
+  /**
+   * IDs of existing Access service tokens allowed to authenticate
+   * (for CI, scripts and other non-interactive clients)
+   */
+  serviceTokenIds?: string[];
+
+  /**
+   * Paths on every tunnel hostname that skip Access entirely, e.g. webhook endpoints
+   * such as "/discord/interactions" or "/cursor/webhook"
+   * @default []
+   */
+  bypassPaths?: string[];
+
+  /**
+   * How long an Access session lasts before users must sign in again
+   * @default "24h"
+   */
+  sessionDuration?: string;
 }
 
 /**
@@ -119,7 +559,10 @@ interface BaseTunnelOptions {
 interface NamedTunnelOptions extends BaseTunnelOptions {
   /** 
    * Public hostname for the tunnel (e.g., "dev.example.com")
-   * Must be a domain in your Cloudflare account
+   * Must be a domain in your Cloudflare account.
+   * May contain `{user}`, `{branch}` and `{machine}` placeholders
+   * (e.g., "{user}-{branch}.dev.example.com") so a shared config gives every
+   * developer their own hostname; values are lower-cased and made DNS-safe.
    */
   hostname: string;
   
@@ -135,9 +578,25 @@ interface NamedTunnelOptions extends BaseTunnelOptions {
    */
   apiToken?: string;
   
+  /**
+   * Base URL of the Cloudflare API
+   * Override to point the plugin at a proxy or a local mock server
+   * @default "https://api.cloudflare.com/client/v4"
+   */
+  apiBaseUrl?: string;
+
+  /**
+   * `fetch` implementation used for every Cloudflare API request
+   * Useful for injecting a mock transport in tests
+   * (see `createMockCloudflareApi` from `vite-plugin-cloudflare-tunnel/testing`)
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+
   /** 
-   * Cloudflare account ID
-   * If omitted, uses the first account associated with the API token
+   * Cloudflare account ID or account name
+   * If omitted, uses the account that owns the hostname's zone (falling back
+   * to the first account associated with the API token, with a warning)
    */
   accountId?: string;
   
@@ -150,10 +609,41 @@ interface NamedTunnelOptions extends BaseTunnelOptions {
   /** 
    * Name for the tunnel in your Cloudflare dashboard
    * Must contain only letters, numbers, and hyphens. Cannot start or end with a hyphen.
-   * @default "vite-tunnel"
+   * Accepts the same placeholders as `hostname`.
+   * @default "vite-tunnel", plus the placeholders used in `hostname` (e.g., "vite-tunnel-{user}-{branch}")
    */
   tunnelName?: string;
 
+  /**
+   * Additional ingress rules served by the same tunnel. Every hostname listed
+   * here gets DNS records, allowed hosts, cleanup tagging and certificate
+   * coverage just like `hostname`, in whichever zone of the account it belongs
+   * to. Rules are evaluated in order before the default `hostname` → Vite rule,
+   * with each hostname's path rules ahead of its path-less ones.
+   * @default []
+   */
+  ingress?: IngressRule[];
+
+  /**
+   * Where the tunnel's ingress configuration lives.
+   * - `"cloudflare"`: remotely managed; ingress is pushed through the API on
+   *   every start and port change (needs `Cloudflare Tunnel:Edit`)
+   * - `"local"`: locally managed; the plugin writes a cloudflared `config.yml`
+   *   and a credentials file to `localConfigDir` and runs `cloudflared tunnel --config`.
+   *   Ingress changes never touch the API, so once the tunnel and its credentials
+   *   exist `Cloudflare Tunnel:Read` is enough
+   * @default "cloudflare"
+   */
+  configSource?: 'cloudflare' | 'local';
+
+  /**
+   * Directory for `config.yml` and the `<tunnel-id>.json` credentials file
+   * when `configSource` is `"local"`, relative to the Vite root.
+   * A `.gitignore` keeping the credentials out of git is created alongside.
+   * @default ".cloudflared"
+   */
+  localConfigDir?: string;
+
   /** 
    * Wildcard DNS domain to ensure exists (e.g., "*.example.com").
    * When provided the plugin will ensure both A and AAAA records exist.
@@ -168,6 +658,12 @@ interface NamedTunnelOptions extends BaseTunnelOptions {
    */
   ssl?: string;
 
+  /**
+   * Protect the tunnel hostnames with a Cloudflare Access self-hosted
+   * application. Requires the `Access: Apps and Policies:Edit` permission.
+   */
+  access?: AccessOptions;
+
   /**
    * Cleanup configuration for managing orphaned resources
    */
@@ -184,6 +680,15 @@ interface NamedTunnelOptions extends BaseTunnelOptions {
      */
     preserveTunnels?: string[];
   };
+
+  /**
+   * Resolve account, zone and tunnel, then print every change the plugin
+   * would make (tunnel creation, ingress, DNS, certificates, cleanup)
+   * without applying it or starting cloudflared.
+   * Can also be enabled with `CLOUDFLARE_TUNNEL_DRY_RUN=true`.
+   * @default false
+   */
+  dryRun?: boolean;
 }
 
 /**
@@ -193,14 +698,57 @@ interface QuickTunnelOptions extends BaseTunnelOptions {
   // No additional options beyond base options
 }
 
+/**
+ * Per-branch tunnels: every git branch gets `<branch>.<parentDomain>` served
+ * by a tunnel named `<tunnelPrefix>-<branch>`
+ */
+interface BranchPreviewOptions {
+  /**
+   * Domain the branch hostnames are created under (e.g., "preview.example.com").
+   * Accepts the `{user}` and `{machine}` placeholders.
+   */
+  parentDomain: string;
+
+  /**
+   * Prefix of the per-branch tunnel names. Only tunnels starting with this
+   * prefix are considered by the stale branch cleanup. Accepts `{user}` and `{machine}`.
+   * @default "vite-branch"
+   */
+  tunnelPrefix?: string;
+
+  /**
+   * Delete branch tunnels created from this clone (with their DNS records, certificates and Access apps)
+   * whose branch no longer exists locally or that have been disconnected for
+   * longer than `staleAfterDays`. Also requires `cleanup.autoCleanup`.
+   * @default true
+   */
+  cleanupStale?: boolean;
+
+  /**
+   * Days without a connection after which a branch tunnel counts as stale
+   * @default 14
+   */
+  staleAfterDays?: number;
+}
+
+/**
+ * Configuration options for branch preview mode (named tunnel per git branch)
+ */
+interface BranchPreviewTunnelOptions extends Omit<NamedTunnelOptions, 'hostname' | 'tunnelName'> {
+  hostname?: undefined;
+  tunnelName?: undefined;
+  branchPreview: BranchPreviewOptions;
+}
+
 /**
  * Configuration options for the Cloudflare Tunnel Vite plugin
  * 
- * Two modes are supported:
+ * Three modes are supported:
  * - Named tunnel mode: Provide `hostname` for a persistent tunnel with custom domain
+ * - Branch preview mode: Provide `branchPreview` for a named tunnel per git branch
  * - Quick tunnel mode: Omit `hostname` for a temporary tunnel with random trycloudflare.com URL
  */
-export type CloudflareTunnelOptions = NamedTunnelOptions | QuickTunnelOptions;
+export type CloudflareTunnelOptions = NamedTunnelOptions | BranchPreviewTunnelOptions | QuickTunnelOptions;
 
 /**
  * Creates a Vite plugin that automatically sets up Cloudflare tunnels for local development
@@ -259,7 +807,7 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
 
       load(id) {
         if (id === '\0' + VIRTUAL_MODULE_ID_STUB) {
-          return 'export function getTunnelUrl() { return ""; }';
+          return generateVirtualModule('', 'disabled');
         }
         return;
       },
@@ -271,9 +819,13 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
   // child-process on the global object so that we can re-use or clean it
   // up before starting a new one.  This prevents duplicate tunnels and
   // "listen called twice" crashes when Vite restarts.
+  // The dev server and `vite preview` each get their own session so that
+  // both tunnels can run side by side.
   // ---------------------------------------------------------------------
 
-  const GLOBAL_STATE = Symbol.for("vite-plugin-cloudflare-tunnel.state");
+  const GLOBAL_STATE = Symbol.for("vite-plugin-cloudflare-tunnel.sessions");
+
+  type SessionKind = 'dev' | 'preview';
   
   type GlobalState = {
     child?: ReturnType<typeof spawn>;
@@ -281,13 +833,18 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
     configHash?: string;
     shuttingDown?: boolean;
     tunnelUrl: Promise<string> | undefined;
+    tunnelStatus?: TunnelStatus;
     // Allow dynamic keys for SSL certificate tracking
     [key: string]: any;
   };
 
-  const globalState: GlobalState = (globalThis as any)[GLOBAL_STATE] ?? {};
+  const globalSessions: Partial<Record<SessionKind, GlobalState>> = (globalThis as any)[GLOBAL_STATE] ?? {};
   // Ensure the symbol is always present so future plugin instances see it
-  (globalThis as any)[GLOBAL_STATE] = globalState;
+  (globalThis as any)[GLOBAL_STATE] = globalSessions;
+
+  // Session this plugin instance drives; switched by configurePreviewServer
+  let sessionKind: SessionKind = 'dev';
+  let globalState: GlobalState = globalSessions.dev ??= { tunnelUrl: undefined };
 
   // Local reference, kept in sync with the global state
   let child: ReturnType<typeof spawn> | undefined = globalState.child;
@@ -296,8 +853,13 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
   // Virtual module to expose the tunnel URL at dev time
   // ---------------------------------------------------------------------
   const VIRTUAL_MODULE_ID = 'virtual:vite-plugin-cloudflare-tunnel';
+  // Client code of the status overlay, imported by the script injected into index.html
+  const OVERLAY_MODULE_ID = 'virtual:vite-plugin-cloudflare-tunnel/overlay';
   // const RESOLVED_VIRTUAL_MODULE_ID = '\0' + VIRTUAL_MODULE_ID;
   let tunnelUrl = '';
+  let tunnelStatus: TunnelStatus = globalState.tunnelStatus ?? 'starting';
+  // Dev server whose HMR channel receives tunnel state updates
+  let devServer: ViteDevServer | undefined;
 
   // ---------------------------------------------------------------------
   // Load env vars & extract/validate options (this block was accidentally
@@ -306,11 +868,11 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
 
 
   // Determine tunnel mode and validate options
-  const isQuickMode = !('hostname' in options);
+  const isQuickMode = !('hostname' in options) && !('branchPreview' in options);
   
   // Validate that quick mode options don't include named-mode-only options
   if (isQuickMode) {
-    const namedModeOptions = ['apiToken', 'accountId', 'zoneId', 'tunnelName', 'dns', 'ssl', 'cleanup'];
+    const namedModeOptions = ['apiToken', 'apiBaseUrl', 'fetch', 'accountId', 'zoneId', 'tunnelName', 'ingress', 'configSource', 'localConfigDir', 'access', 'dns', 'ssl', 'cleanup', 'dryRun'];
     const invalidOptions = namedModeOptions.filter(opt => opt in options);
     if (invalidOptions.length > 0) {
       throw new Error(
@@ -328,7 +890,15 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
   let forcedZone: string | undefined;
   let dnsOption: string | undefined;
   let sslOption: string | undefined;
+  let ingressOption: IngressRule[] = [];
+  let configSource: 'cloudflare' | 'local' = 'cloudflare';
+  let localConfigDirOption = ".cloudflared";
+  let accessOption: AccessOptions | undefined;
+  let apiBaseUrl = DEFAULT_API_BASE_URL;
+  let fetchImpl: typeof fetch = (...args) => fetch(...args);
   let cleanupConfig: any;
+  let dryRunOption: boolean | undefined;
+  let branchPreviewOption: BranchPreviewOptions | undefined;
   
   if (isQuickMode) {
     // Quick mode - only base options
@@ -336,15 +906,31 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
     cleanupConfig = {};
   } else {
     // Named mode - extract all options
-    const namedOptions = options as NamedTunnelOptions;
+    const namedOptions = options as NamedTunnelOptions | BranchPreviewTunnelOptions;
     providedApiToken = namedOptions.apiToken;
-    hostname = namedOptions.hostname;
+    branchPreviewOption = 'branchPreview' in namedOptions ? namedOptions.branchPreview : undefined;
+    if (branchPreviewOption) {
+      if (namedOptions.hostname !== undefined || namedOptions.tunnelName !== undefined) {
+        throw new Error(
+          "[cloudflare-tunnel] branchPreview derives hostname and tunnelName from the git branch; " +
+          "remove hostname/tunnelName or use branchPreview.parentDomain/tunnelPrefix instead"
+        );
+      }
+      if (!branchPreviewOption.parentDomain || typeof branchPreviewOption.parentDomain !== "string") {
+        throw new Error("[cloudflare-tunnel] branchPreview.parentDomain is required (e.g., 'preview.example.com')");
+      }
+    }
+    // Names with {user}, {branch} or {machine} are resolved in the config hook (see resolveNames)
     forcedAccount = namedOptions.accountId;
     forcedZone = namedOptions.zoneId;
-    tunnelName = namedOptions.tunnelName || "vite-tunnel";
-    dnsOption = namedOptions.dns;
-    sslOption = namedOptions.ssl;
+    ingressOption = namedOptions.ingress || [];
+    configSource = namedOptions.configSource ?? configSource;
+    localConfigDirOption = namedOptions.localConfigDir ?? localConfigDirOption;
+    accessOption = namedOptions.access;
+    apiBaseUrl = (namedOptions.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+    fetchImpl = namedOptions.fetch || fetchImpl;
     cleanupConfig = namedOptions.cleanup || {};
+    dryRunOption = namedOptions.dryRun;
   }
 
   // Extract common options
@@ -353,74 +939,300 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
     logFile,
     logLevel,
     debug = false,
+    restart: restartOption = true,
+    persistent = false,
+    logger: loggerOption,
+    logFormat = 'text',
+    auth: authOption = false,
+    inspect: inspectOption = false,
+    overlay: overlayEnabled = false,
+    printQrCode = false,
+    copyToClipboard = false,
   } = options;
 
-  // Internal debug logger – prints only when `debug` flag enabled
-  const debugLog = (...args: unknown[]) => {
-    if (debug) {
-      console.log("[cloudflare-tunnel:debug]", ...args);
+  const authConfig: TunnelAuthOptions | undefined =
+    authOption === true ? { oneTimeLink: true } : authOption || undefined;
+  const oneTimeLinkEnabled = !!authConfig && (authConfig.oneTimeLink ?? (!authConfig.basic && !authConfig.token));
+
+  const restartPolicy = {
+    enabled: restartOption !== false,
+    maxAttempts: 5,
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+    ...(typeof restartOption === "object" ? restartOption : {}),
+  };
+
+  // Destination for all output; switched to Vite's logger in configResolved for `logger: 'vite'`
+  let logSink: TunnelLogger = typeof loggerOption === "object" ? loggerOption : CONSOLE_LOGGER;
+
+  const writeLog = (
+    level: "debug" | "info" | "warn" | "error",
+    source: "plugin" | "cloudflared",
+    message: string,
+    fields?: Record<string, unknown>
+  ) => {
+    let line: string;
+    if (logFormat === "json") {
+      line = JSON.stringify({ time: new Date().toISOString(), level, source, message, ...fields });
+    } else if (source === "cloudflared") {
+      line = `[cloudflared] ${message}`;
+    } else {
+      line = `${level === "debug" ? "[cloudflare-tunnel:debug]" : "[cloudflare-tunnel]"} ${message}`;
+    }
+    if (level === "debug") {
+      (logSink.debug ?? logSink.info).call(logSink, line);
+    } else {
+      logSink[level](line);
+    }
+  };
+
+  const log = {
+    // Prints only when `debug` flag enabled
+    debug: (...args: unknown[]) => {
+      if (debug) writeLog("debug", "plugin", formatWithOptions({ depth: 6 }, ...args));
+    },
+    info: (message: string, fields?: Record<string, unknown>) => writeLog("info", "plugin", message, fields),
+    warn: (message: string, fields?: Record<string, unknown>) => writeLog("warn", "plugin", message, fields),
+    error: (message: string, fields?: Record<string, unknown>) => writeLog("error", "plugin", message, fields),
+  };
+  const debugLog = log.debug;
+
+  type LifecycleHooks = Pick<BaseTunnelOptions, 'onTunnelReady' | 'onTunnelUrlChange' | 'onTunnelExit'>;
+
+  // Invoke a user-supplied lifecycle callback, never letting it break the tunnel
+  const invokeHook = async <K extends keyof LifecycleHooks>(
+    name: K,
+    ...args: Parameters<NonNullable<LifecycleHooks[K]>>
+  ) => {
+    const hook = options[name] as ((...hookArgs: typeof args) => void | Promise<void>) | undefined;
+    if (!hook) return;
+    try {
+      await hook(...args);
+    } catch (error) {
+      log.error(`❌ ${name} callback failed: ${(error as Error).message}`);
     }
   };
 
   // Basic input validation
-  if (!isQuickMode && (!hostname || typeof hostname !== "string")) {
+  const hostnameTemplate = (options as Partial<NamedTunnelOptions>).hostname;
+  if (!isQuickMode && !branchPreviewOption && (!hostnameTemplate || typeof hostnameTemplate !== "string")) {
     throw new Error("[cloudflare-tunnel] hostname is required and must be a valid string in named tunnel mode");
   }
-  if (hostname) {
-    tunnelUrl = `https://${hostname}`;
+
+  if (!Array.isArray(ingressOption)) {
+    throw new Error("[cloudflare-tunnel] ingress must be an array of { hostname, path?, service? } rules");
+  }
+  for (const rule of ingressOption) {
+    if (!rule || typeof rule.hostname !== "string" || !rule.hostname) {
+      throw new Error("[cloudflare-tunnel] every ingress rule requires a hostname string");
+    }
+    if (rule.path !== undefined && typeof rule.path !== "string") {
+      throw new Error(`[cloudflare-tunnel] ingress rule path for ${rule.hostname} must be a string`);
+    }
+    if (rule.service !== undefined && typeof rule.service !== "string") {
+      throw new Error(`[cloudflare-tunnel] ingress rule service for ${rule.hostname} must be a string`);
+    }
   }
 
-  // Validate tunnel name contains only DNS-safe characters
-  if (tunnelName && !/^[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?$/.test(tunnelName)) {
-    throw new Error(
-      "[cloudflare-tunnel] tunnelName must contain only letters, numbers, and hyphens. " +
-      "It cannot start or end with a hyphen. This ensures compatibility with DNS records and SSL certificates."
-    );
+  if (configSource !== "cloudflare" && configSource !== "local") {
+    throw new Error("[cloudflare-tunnel] configSource must be 'cloudflare' or 'local'");
+  }
+  if (typeof localConfigDirOption !== "string" || !localConfigDirOption) {
+    throw new Error("[cloudflare-tunnel] localConfigDir must be a non-empty path");
   }
 
   if (
-    userProvidedPort &&
-    (typeof userProvidedPort !== "number" || userProvidedPort < 1 || userProvidedPort > 65535)
+    branchPreviewOption?.staleAfterDays !== undefined &&
+    !(typeof branchPreviewOption.staleAfterDays === "number" && branchPreviewOption.staleAfterDays > 0)
   ) {
-    throw new Error("[cloudflare-tunnel] port must be a valid number between 1 and 65535");
-  }
-
-  if (logLevel && !["debug", "info", "warn", "error", "fatal"].includes(logLevel)) {
-    throw new Error("[cloudflare-tunnel] logLevel must be one of: debug, info, warn, error, fatal");
+    throw new Error("[cloudflare-tunnel] branchPreview.staleAfterDays must be a positive number");
   }
 
-  // Determine effective log level for cloudflared: explicit option > debug flag > default warn
-  const effectiveLogLevel: "debug" | "info" | "warn" | "error" | "fatal" =
-    (logLevel as any) ?? (debug ? "info" : "warn");
-  debugLog("Effective cloudflared log level:", effectiveLogLevel);
-
-  if (dnsOption) {
-    const isDnsWildcard = dnsOption.startsWith("*.");
-    if (!isDnsWildcard && dnsOption !== hostname) {
+  if (accessOption) {
+    const { emailDomains = [], emails = [], serviceTokenIds = [], bypassPaths = [] } = accessOption;
+    if (emailDomains.length + emails.length + serviceTokenIds.length === 0) {
       throw new Error(
-        "[cloudflare-tunnel] dns option must either be a wildcard (e.g., '*.example.com') or exactly match the hostname"
+        "[cloudflare-tunnel] access requires at least one of emailDomains, emails or serviceTokenIds"
       );
     }
-  }
-
-  if (sslOption) {
-    const isSslWildcard = sslOption.startsWith("*.");
-    if (!isSslWildcard && sslOption !== hostname) {
-      throw new Error(
-        "[cloudflare-tunnel] ssl option must either be a wildcard (e.g., '*.example.com') or exactly match the hostname"
-      );
+    if (bypassPaths.some((bypassPath) => typeof bypassPath !== "string" || !bypassPath.startsWith("/"))) {
+      throw new Error("[cloudflare-tunnel] access.bypassPaths entries must be paths starting with '/'");
     }
   }
 
-  // ---------------------------------------------------------------------
-  // Helper to call Cloudflare API (also restored).
-  // ---------------------------------------------------------------------
+  // Every public hostname served by this tunnel (primary hostname first), set by resolveNames
+  let allHostnames: string[] = [];
+  // Ingress rules as configured, before their hostname templates are resolved
+  const ingressTemplates = ingressOption;
+  // Directory {branch} is resolved in: Vite's root once the config hook has run
+  let nameTemplateRoot = process.cwd();
+
+  // Hash of the effective runtime config used to decide whether a running tunnel can be re-used
+  const computeConfigHash = (port: number | undefined) =>
+    JSON.stringify({ isQuickMode, hostname, port, tunnelName, ingressOption, configSource, accessOption, dnsOption, sslOption });
 
   /**
-   * Track SSL certificates created by this plugin
-   * Since SSL certificates don't support custom metadata, we track them by hostname patterns
+   * Build the ingress list: user rules first (in order), then the
+   * primary hostname → Vite rule, then the mandatory catch-all.
    */
-  const trackSslCertificate = (
+  const buildIngressRules = (localTarget: string) => {
+    // cloudflared stops at the first match, so a hostname's path rules go before its catch-all
+    const rulesByHostname = new Map<string, Array<{ hostname: string; path?: string; service: string }>>();
+    for (const rule of ingressOption) {
+      const group = rulesByHostname.get(rule.hostname) ?? [];
+      group.push({ hostname: rule.hostname, ...(rule.path ? { path: rule.path } : {}), service: rule.service || localTarget });
+      rulesByHostname.set(rule.hostname, group);
+    }
+    const rules: Array<{ hostname?: string; path?: string; service: string }> = [...rulesByHostname.values()].flatMap((group) => [
+      ...group.filter((rule) => rule.path),
+      ...group.filter((rule) => !rule.path),
+    ]);
+    // Skip the default rule when a path-less user rule already claims the primary hostname
+    if (!ingressOption.some((rule) => rule.hostname === hostname && !rule.path)) {
+      rules.push({ hostname: hostname!, service: localTarget });
+    }
+    rules.push({ service: "http_status:404" });
+    return rules;
+  };
+
+  if (
+    userProvidedPort &&
+    (typeof userProvidedPort !== "number" || userProvidedPort < 1 || userProvidedPort > 65535)
+  ) {
+    throw new Error("[cloudflare-tunnel] port must be a valid number between 1 and 65535");
+  }
+
+  for (const key of ["maxAttempts", "initialDelayMs", "maxDelayMs"] as const) {
+    const value = restartPolicy[key];
+    if (typeof value !== "number" || value < 0) {
+      throw new Error(`[cloudflare-tunnel] restart.${key} must be a non-negative number`);
+    }
+  }
+
+  if (logLevel && !["debug", "info", "warn", "error", "fatal"].includes(logLevel)) {
+    throw new Error("[cloudflare-tunnel] logLevel must be one of: debug, info, warn, error, fatal");
+  }
+  if (logFormat !== "text" && logFormat !== "json") {
+    throw new Error("[cloudflare-tunnel] logFormat must be either 'text' or 'json'");
+  }
+  if (loggerOption !== undefined && loggerOption !== "vite" && !isTunnelLogger(loggerOption)) {
+    throw new Error("[cloudflare-tunnel] logger must be 'vite' or an object with info, warn and error methods");
+  }
+
+  if (authConfig) {
+    const { basic, token } = authConfig;
+    if (basic && !(typeof basic.username === "string" && basic.username && typeof basic.password === "string" && basic.password)) {
+      throw new Error("[cloudflare-tunnel] auth.basic requires a non-empty username and password");
+    }
+    if (token !== undefined && !(typeof token === "string" && token)) {
+      throw new Error("[cloudflare-tunnel] auth.token must be a non-empty string");
+    }
+    if (!basic && !token && !oneTimeLinkEnabled) {
+      throw new Error("[cloudflare-tunnel] auth needs at least one of basic, token or oneTimeLink");
+    }
+  }
+
+  const inspectConfig = inspectOption
+    ? { maxRequests: 100, maxBodyBytes: 64 * 1024, ...(typeof inspectOption === "object" ? inspectOption : {}) }
+    : undefined;
+  if (inspectConfig) {
+    for (const key of ["maxRequests", "maxBodyBytes"] as const) {
+      if (!Number.isInteger(inspectConfig[key]) || inspectConfig[key] < 1) {
+        throw new Error(`[cloudflare-tunnel] inspect.${key} must be a positive integer`);
+      }
+    }
+  }
+
+  // Determine effective log level for cloudflared: explicit option > debug flag > default warn
+  const effectiveLogLevel: keyof typeof LOG_LEVEL_RANK = logLevel ?? (debug ? "info" : "warn");
+  // cloudflared itself logs at info or lower: readiness and edge connection
+  // tracking read INF lines, and logCloudflaredOutput applies the level above
+  const cloudflaredLogLevel: keyof typeof LOG_LEVEL_RANK = effectiveLogLevel === "debug" ? "debug" : "info";
+
+  // Classify cloudflared output line by line and forward what passes the log level
+  const logCloudflaredOutput = (data: Buffer | string) => {
+    if (globalState.shuttingDown && !debug) return;
+    for (const rawLine of data.toString().split("\n")) {
+      if (!rawLine.trim()) continue;
+      const entry = parseCloudflaredLine(rawLine);
+      // Noisy ICMP errors don't affect functionality, so only show them at debug level
+      const isIcmpNoise = entry.message.includes("Failed to parse ICMP reply") || entry.message.includes("unknow ip version 0");
+      const level = isIcmpNoise ? "debug" : entry.level ?? "info";
+      // Unformatted lines (e.g. the quick tunnel URL banner) are always shown
+      if ((entry.level || isIcmpNoise) && LOG_LEVEL_RANK[level] < LOG_LEVEL_RANK[effectiveLogLevel]) continue;
+      writeLog(
+        level === "fatal" ? "error" : level,
+        "cloudflared",
+        logFormat === "json" ? entry.message : rawLine.trim(),
+        { cloudflaredTime: entry.timestamp, cloudflaredLevel: entry.level, fields: entry.fields }
+      );
+    }
+  };
+  debugLog("Effective cloudflared log level:", effectiveLogLevel);
+
+  // Per-developer names: {user}, {branch} and {machine} are resolved against
+  // Vite's root, which the dev server's working directory need not be
+  const resolveNames = (root: string) => {
+    nameTemplateRoot = root;
+    if (isQuickMode) return;
+    const namedOptions = options as NamedTunnelOptions | BranchPreviewTunnelOptions;
+    hostname = expandNameTemplate(
+      branchPreviewOption ? `{branch}.${branchPreviewOption.parentDomain}` : namedOptions.hostname,
+      root
+    );
+    // A templated hostname without an explicit tunnelName gets its own tunnel (and cleanup scope)
+    tunnelName = expandNameTemplate(
+      branchPreviewOption
+        ? `${branchPreviewOption.tunnelPrefix ?? "vite-branch"}-{branch}`
+        : namedOptions.tunnelName || ["vite-tunnel", ...templatePlaceholdersIn(namedOptions.hostname)].join("-"),
+      root
+    );
+    dnsOption = expandNameTemplate(namedOptions.dns, root);
+    sslOption = expandNameTemplate(namedOptions.ssl, root);
+    ingressOption = ingressTemplates.map((rule) => ({ ...rule, hostname: expandNameTemplate(rule.hostname, root) }));
+    allHostnames = [...new Set([hostname!, ...ingressOption.map((rule) => rule.hostname)])];
+    tunnelUrl = `https://${hostname}`;
+    if (hostname !== namedOptions.hostname) {
+      // Also covers branchPreview, whose hostname is always derived
+      log.info(`Resolved hostname template to ${hostname} (tunnel '${tunnelName}')`);
+    }
+
+    // Validate tunnel name contains only DNS-safe characters
+    if (tunnelName && !/^[a-zA-Z0-9]([a-zA-Z0-9-]*[a-zA-Z0-9])?$/.test(tunnelName)) {
+      throw new Error(
+        "[cloudflare-tunnel] tunnelName must contain only letters, numbers, and hyphens. " +
+        "It cannot start or end with a hyphen. This ensures compatibility with DNS records and SSL certificates."
+      );
+    }
+
+    if (dnsOption) {
+      const isDnsWildcard = dnsOption.startsWith("*.");
+      if (!isDnsWildcard && !allHostnames.includes(dnsOption)) {
+        throw new Error(
+          "[cloudflare-tunnel] dns option must either be a wildcard (e.g., '*.example.com') or exactly match a configured hostname"
+        );
+      }
+    }
+
+    if (sslOption) {
+      const isSslWildcard = sslOption.startsWith("*.");
+      if (!isSslWildcard && !allHostnames.includes(sslOption)) {
+        throw new Error(
+          "[cloudflare-tunnel] ssl option must either be a wildcard (e.g., '*.example.com') or exactly match a configured hostname"
+        );
+      }
+    }
+  };
+
+  // ---------------------------------------------------------------------
+  // Helper to call Cloudflare API (also restored).
+  // ---------------------------------------------------------------------
+
+  /**
+   * Track SSL certificates created by this plugin
+   * Since SSL certificates don't support custom metadata, we track them by hostname patterns
+   */
+  const trackSslCertificate = (
     certificateId: string,
     hosts: string[],
     tunnelName: string,
@@ -439,57 +1251,52 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
   };
 
   /**
-   * Find mismatched SSL certificates from the current tunnel that don't cover current hostname
+   * Find mismatched SSL certificates from the current tunnel that don't cover any current hostname
    */
   const findMismatchedSslCertificates = async (
     apiToken: string,
     zoneId: string,
     currentTunnelName: string,
-    currentHostname: string
-  ): Promise<any[]> => {
+    currentHostnames: string[]
+  ): Promise<CertificatePack[]> => {
     try {
-      const certPacks: any = await cf(apiToken, "GET", `/zones/${zoneId}/ssl/certificate_packs?status=all`, undefined, z.any());
-      const allCerts: any[] = Array.isArray(certPacks) ? certPacks : (certPacks.result || []);
+      const allCerts = await cf(apiToken, "GET", `/zones/${zoneId}/ssl/certificate_packs?status=all`, undefined, z.array(CertificatePackSchema));
       
       // Find certificates created by our plugin for the current tunnel
       const currentTunnelCerts = allCerts.filter(cert => {
-        const certHosts = cert.hostnames || cert.hosts || [];
-        
         // Look for our tag hostname pattern with current tunnel name
-        return certHosts.some((host: string) => 
-          host.startsWith(`cf-tunnel-plugin-${currentTunnelName}--`)
-        );
+        return cert.hosts.some((host) => tunnelNameFromSslTag(host) === currentTunnelName);
       });
       
       debugLog(`Found ${currentTunnelCerts.length} SSL certificates for current tunnel: ${currentTunnelName}`);
       
-      // From current tunnel certificates, find ones that don't cover current hostname
+      // From current tunnel certificates, find ones that don't cover any current hostname
       const mismatchedCerts = currentTunnelCerts.filter(cert => {
-        const certHosts = cert.hostnames || cert.hosts || [];
-        
-        // Check if certificate covers current hostname
-        const coversCurrentHostname = certHosts.some((host: string) => {
+        // Check if certificate covers one of the current hostnames
+        const coversCurrentHostname = cert.hosts.some((host) => {
           // Skip tag hostnames when checking coverage
-          if (host.startsWith('cf-tunnel-plugin-')) return false;
+          if (host.startsWith(SSL_TAG_PREFIX)) return false;
           
           // Check exact match or wildcard match
-          return host === currentHostname || 
-                 (host.startsWith('*.') && currentHostname.endsWith(host.slice(1)));
+          return currentHostnames.some((currentHostname) =>
+            host === currentHostname ||
+            (host.startsWith('*.') && currentHostname.endsWith(host.slice(1)))
+          );
         });
         
-        // If certificate doesn't cover current hostname, it's mismatched
+        // If certificate doesn't cover any current hostname, it's mismatched
         return !coversCurrentHostname;
       });
       
       debugLog(`Found ${mismatchedCerts.length} mismatched SSL certificates`, mismatchedCerts.map(c => ({ 
         id: c.id, 
-        hosts: c.hostnames || c.hosts,
-        currentHostname 
+        hosts: c.hosts,
+        currentHostnames 
       })));
       
       return mismatchedCerts;
     } catch (error) {
-      console.error(`[cloudflare-tunnel] ❌ SSL certificate listing failed: ${(error as Error).message}`);
+      log.error(`❌ SSL certificate listing failed: ${(error as Error).message}`);
       return [];
     }
   };
@@ -499,14 +1306,14 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
    * @param apiToken Cloudflare API token
    * @param zoneId Zone ID to clean up
    * @param currentTunnelName Current tunnel name
-   * @param currentHostname Current hostname configuration
+   * @param currentHostnames Hostnames served by the current configuration
    * @param tunnelId Current tunnel ID for CNAME content
    */
   const cleanupMismatchedDnsRecords = async (
     apiToken: string,
     zoneId: string,
     dnsComment: string,
-    currentHostname: string,
+    currentHostnames: string[],
     tunnelId: string
   ): Promise<{ found: DNSRecord[], deleted: DNSRecord[] }> => {
     try {
@@ -525,7 +1332,7 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
       const expectedCnameContent = `${tunnelId}.cfargotunnel.com`;
       const mismatchedRecords = pluginDnsRecords.filter(record => {
         // Skip records that match current configuration
-        if (record.name === currentHostname && record.content === expectedCnameContent) {
+        if (currentHostnames.includes(record.name) && record.content === expectedCnameContent) {
           return false; // This record matches current config, keep it
         }
         
@@ -547,15 +1354,15 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
       const deletedRecords: DNSRecord[] = [];
       
       if (mismatchedRecords.length > 0) {
-        console.log(`[cloudflare-tunnel] 🧹 Cleaning up ${mismatchedRecords.length} mismatched DNS records from tunnel '${dnsComment}'...`);
+        log.info(`🧹 Cleaning up ${mismatchedRecords.length} mismatched DNS records from tunnel '${dnsComment}'...`);
         
         for (const record of mismatchedRecords) {
           try {
             await cf(apiToken, "DELETE", `/zones/${zoneId}/dns_records/${record.id}`);
             deletedRecords.push(record);
-            console.log(`[cloudflare-tunnel] ✅ Deleted mismatched DNS record: ${record.name} → ${record.content}`);
+            log.info(`✅ Deleted mismatched DNS record: ${record.name} → ${record.content}`);
           } catch (error) {
-            console.error(`[cloudflare-tunnel] ❌ Failed to delete DNS record ${record.name}: ${(error as Error).message}`);
+            log.error(`❌ Failed to delete DNS record ${record.name}: ${(error as Error).message}`);
           }
         }
       }
@@ -565,68 +1372,332 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
         deleted: deletedRecords
       };
     } catch (error) {
-      console.error(`[cloudflare-tunnel] ❌ DNS cleanup failed: ${(error as Error).message}`);
+      log.error(`❌ DNS cleanup failed: ${(error as Error).message}`);
       return { found: [], deleted: [] };
     }
   };
 
-  const cf = async <T>(
+  /**
+   * Create, update or remove the Cloudflare Access applications protecting the
+   * tunnel. Applications are tagged through their name (`<resourceTag>` for the
+   * main app, `<resourceTag> bypass <hostname><path>` for bypass rules) so cleanup can find them.
+   * @param apiToken Cloudflare API token
+   * @param accountId Account owning the Access applications
+   * @param resourceTag Tag shared with the DNS record comments
+   * @param removeStale Whether tagged applications no longer configured should be deleted
+   */
+  const syncAccessApplications = async (
     apiToken: string,
-    method: string,
-    url: string,
-    body?: unknown,
-    resultSchema?: z.ZodSchema<T>
-  ): Promise<T> => {
-    try {
-      debugLog("→ CF API", method, url, body ? { body } : "");
+    accountId: string,
+    resourceTag: string,
+    removeStale: boolean
+  ): Promise<void> => {
+    const desired: Array<Record<string, unknown> & { name: string }> = [];
+    if (accessOption) {
+      const {
+        emailDomains = [],
+        emails = [],
+        serviceTokenIds = [],
+        bypassPaths = [],
+        sessionDuration = "24h",
+      } = accessOption;
 
-      const response = await fetch(`https://api.cloudflare.com/client/v4${url}`,
-        {
-          method,
-          headers: {
-            Authorization: `Bearer ${apiToken}`,
-            "Content-Type": "application/json",
-            "User-Agent": "vite-plugin-cloudflare-tunnel/1.0.0",
-          },
-          ...(body ? { body: JSON.stringify(body) } : {}),
+      const policies: Array<Record<string, unknown>> = [];
+      if (emailDomains.length > 0 || emails.length > 0) {
+        policies.push({
+          name: "Allow developers",
+          decision: "allow",
+          precedence: policies.length + 1,
+          include: [
+            ...emailDomains.map((domain) => ({ email_domain: { domain } })),
+            ...emails.map((email) => ({ email: { email } })),
+          ],
+        });
+      }
+      if (serviceTokenIds.length > 0) {
+        policies.push({
+          name: "Allow service tokens",
+          decision: "non_identity",
+          precedence: policies.length + 1,
+          include: serviceTokenIds.map((tokenId) => ({ service_token: { token_id: tokenId } })),
+        });
+      }
+
+      desired.push({
+        name: resourceTag,
+        type: "self_hosted",
+        domain: hostname!,
+        self_hosted_domains: allHostnames,
+        session_duration: sessionDuration,
+        app_launcher_visible: false,
+        policies,
+      });
+      // More specific paths take precedence over the main application, which
+      // covers every hostname, so each hostname needs its own bypass
+      for (const host of allHostnames) {
+        for (const bypassPath of bypassPaths) {
+          desired.push({
+            name: `${resourceTag} bypass ${host}${bypassPath}`,
+            type: "self_hosted",
+            domain: `${host}${bypassPath}`,
+            session_duration: sessionDuration,
+            app_launcher_visible: false,
+            policies: [{ name: "Bypass", decision: "bypass", precedence: 1, include: [{ everyone: {} }] }],
+          });
         }
-      );
+      }
+    }
 
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => "Unknown error");
-        throw new Error(
-          `[cloudflare-tunnel] API request failed: ${response.status} ${response.statusText}. Response: ${errorText}`
+    let existingApps: AccessApplication[];
+    try {
+      existingApps = await cf(apiToken, "GET", `/accounts/${accountId}/access/apps`, undefined, z.array(AccessApplicationSchema));
+    } catch (error) {
+      // Tokens without Access permissions are fine as long as Access isn't configured
+      if (!accessOption) {
+        debugLog("← Skipping Access cleanup", (error as Error).message);
+        return;
+      }
+      throw error;
+    }
+    const taggedApps = existingApps.filter((app) => app.name === resourceTag || app.name.startsWith(`${resourceTag} `));
+
+    const matchedApps = new Set<AccessApplication>();
+    for (const app of desired) {
+      // Bypass apps used to be named after the path only; adopt them by domain
+      const existing =
+        taggedApps.find((candidate) => candidate.name === app.name) ??
+        taggedApps.find(
+          (candidate) =>
+            !matchedApps.has(candidate) &&
+            candidate.name.startsWith(`${resourceTag} bypass `) &&
+            candidate.domain === app.domain
         );
+      if (existing) {
+        matchedApps.add(existing);
+        debugLog(`Updating Access application ${app.name}`);
+        await cf(apiToken, "PUT", `/accounts/${accountId}/access/apps/${existing.id}`, app, AccessApplicationSchema);
+      } else {
+        log.info(`🔐 Creating Access application for ${app.domain}...`);
+        await cf(apiToken, "POST", `/accounts/${accountId}/access/apps`, app, AccessApplicationSchema);
+      }
+    }
+
+    const staleApps = taggedApps.filter((app) => !matchedApps.has(app));
+    if (staleApps.length > 0 && removeStale) {
+      for (const app of staleApps) {
+        try {
+          await cf(apiToken, "DELETE", `/accounts/${accountId}/access/apps/${app.id}`);
+          log.info(`✅ Deleted Access application: ${app.domain ?? app.name}`);
+        } catch (error) {
+          log.error(`❌ Failed to delete Access application ${app.name}: ${(error as Error).message}`);
+        }
       }
+    } else if (staleApps.length > 0) {
+      debugLog("← Stale Access applications kept (autoCleanup disabled)", staleApps);
+    }
+  };
+
+  // Branch tunnels created from this clone, in Vite's cache dir (set by configureServer).
+  // Teammates share the tunnel prefix, so only these are ever cleaned up.
+  let branchLedgerFile: string | undefined;
+
+  const updateBranchLedger = async (update: (names: Set<string>) => void) => {
+    if (!branchLedgerFile || dryRun) return;
+    const names = new Set(await readBranchLedger(branchLedgerFile));
+    update(names);
+    try {
+      await fs.mkdir(path.dirname(branchLedgerFile), { recursive: true });
+      await fs.writeFile(branchLedgerFile, JSON.stringify([...names].sort(), null, 2));
+    } catch (error) {
+      log.warn(`Failed to write ${branchLedgerFile}: ${(error as Error).message}`);
+    }
+  };
+
+  /**
+   * Tear down branch preview tunnels created from this clone whose branch is
+   * gone or that stopped connecting
+   * @param apiToken Cloudflare API token
+   * @param accountId Account owning the tunnels
+   * @param zoneId Zone holding the branch hostnames
+   */
+  const cleanupStaleBranchTunnels = async (apiToken: string, accountId: string, zoneId: string): Promise<void> => {
+    if (!branchPreviewOption || !branchLedgerFile) return;
+    const ownTunnels = new Set(await readBranchLedger(branchLedgerFile));
+    const { tunnelPrefix = "vite-branch", staleAfterDays = 14 } = branchPreviewOption;
+    const prefix = `${expandNameTemplate(tunnelPrefix, nameTemplateRoot)}-`;
+    // Branches come from the same repository as {branch}, not from wherever Vite was started
+    const localBranches = listLocalGitBranches(nameTemplateRoot);
+    if (!localBranches) {
+      log.warn(`⚠️  Could not list the git branches in ${nameTemplateRoot}; skipping branch tunnel cleanup`);
+      return;
+    }
+
+    const zone = await cf(apiToken, "GET", `/zones/${zoneId}`, undefined, ZoneSchema);
+    const resources = await listTunnelResources(cf, apiToken, accountId, [zone], (tunnel) => ownTunnels.has(tunnel.name));
+    const stale = findStaleBranchTunnels(
+      resources.filter((group) => ownTunnels.has(group.tunnelName)),
+      { prefix, currentTunnelName: tunnelName, localBranches, staleAfterDays }
+    );
+    debugLog("← Stale branch tunnels", stale.map(({ tunnelName: name, reason }) => ({ name, reason })));
+
+    for (const group of stale) {
+      log.info(`🌿 Removing branch tunnel '${group.tunnelName}' (${group.reason})...`);
+      const failures = await deleteTunnelResources(cf, apiToken, accountId, group, log);
+      if (failures.length === 0) await updateBranchLedger((names) => names.delete(group.tunnelName));
+    }
+  };
+
+  // A failed read-only permission check and the permission the plugin actually needs there
+  type PermissionCheck = { scope: string; check: string; required: string; neededFor: string };
+
+  const reportMissingPermissions = (missing: PermissionCheck[]): never => {
+    const rows = missing.map((probe) =>
+      `  ${probe.scope.padEnd(9)} ${probe.check.padEnd(30)} ${probe.required.padEnd(32)} ${probe.neededFor}`
+    );
+    log.error(
+      `❌ The API token failed ${missing.length} read-only permission check(s):\n` +
+      `  ${"Scope".padEnd(9)} ${"Failed check".padEnd(30)} ${"Required".padEnd(32)} Needed to\n${rows.join("\n")}\n` +
+      `Edit the token at https://dash.cloudflare.com/profile/api-tokens`,
+      { missingPermissions: missing }
+    );
+    throw new Error(`The Cloudflare token lacks ${missing.map((probe) => `${probe.scope}:${probe.required}`).join(", ")}`);
+  };
 
-      const rawData = await response.json();
-      debugLog("← CF API response", rawData);
-      const apiResponse = CloudflareApiResponseSchema.parse(rawData);
+  // Anything but an authorization failure is a real problem
+  const isAuthorizationError = (error: unknown) =>
+    /API request failed: 40[13]\b|Authentication error/.test((error as Error).message);
 
-      if (!apiResponse.success) {
-        const errorMsg =
-          apiResponse.errors?.map((e) => e.message || `Error ${e.code}`).join(", ") ||
-          "Unknown API error";
-        throw new Error(`[cloudflare-tunnel] Cloudflare API error: ${errorMsg}`);
+  // User tokens verify under /user, account-owned tokens under their account
+  const verifyApiToken = async (apiToken: string, accountId: string | undefined) => {
+    let token: z.infer<typeof TokenVerificationSchema>;
+    try {
+      token = await cf(apiToken, "GET", "/user/tokens/verify", undefined, TokenVerificationSchema);
+    } catch (userError) {
+      if (!accountId) throw userError;
+      try {
+        token = await cf(apiToken, "GET", `/accounts/${accountId}/tokens/verify`, undefined, TokenVerificationSchema);
+      } catch (accountError) {
+        throw new Error(
+          `Could not verify the Cloudflare API token: ${(userError as Error).message} ` +
+          `(as an account token: ${(accountError as Error).message})`
+        );
       }
+    }
+    if (token.status !== "active") {
+      throw new Error(`The Cloudflare API token is ${token.status}`);
+    }
+    debugLog("← Verified API token", token.id);
+  };
 
-      if (resultSchema) {
-        const parsed = resultSchema.parse(apiResponse.result);
-        debugLog("← Parsed result", parsed);
-        return parsed;
+  // Zone lookup failures are usually a token scoped to other zones (or none)
+  const checkZoneReadAccess = async (apiToken: string, hostname: string) => {
+    const canListZones = await cf(apiToken, "GET", "/zones?per_page=1", undefined, z.array(ZoneSchema)).then(
+      (zones) => zones.length > 0,
+      (error) => {
+        if (!isAuthorizationError(error)) throw error;
+        return false;
       }
+    );
+    if (!canListZones) {
+      reportMissingPermissions([
+        { scope: "Zone", check: "Zone:Read", required: "Zone:Read", neededFor: `look up the zone for ${hostname}` },
+      ]);
+    }
+  };
 
-      debugLog("← Result (untyped)", apiResponse.result);
-      return apiResponse.result as T;
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes("[cloudflare-tunnel]")) {
-          throw error;
-        }
-        throw new Error(`[cloudflare-tunnel] API request failed: ${error.message}`);
+  /**
+   * Verify the API token and probe every endpoint the configured options
+   * need, so missing permissions are reported up front instead of as a 403
+   * halfway through setup. Only issues GET requests; Cloudflare's Edit
+   * permissions include Read, so a failed check means the required
+   * permission is missing too.
+   * @param apiToken Cloudflare API token
+   * @param accountId Resolved account
+   * @param zoneHosts Hostnames of the tunnel by the ID of the zone they belong to
+   */
+  const preflightApiToken = async (apiToken: string, accountId: string, zoneHosts: Map<string, string[]>): Promise<void> => {
+    const zoneProbes = [...zoneHosts].flatMap(([zoneId, hosts]): Array<PermissionCheck & { url: string }> => {
+      const forHosts = `for ${hosts.join(", ")}`;
+      return [
+        { scope: "Zone", check: "Zone:Read", required: "Zone:Read", neededFor: `look up the zone ${forHosts}`, url: `/zones/${zoneId}` },
+        {
+          scope: "Zone",
+          check: "DNS:Read",
+          required: "DNS:Edit",
+          neededFor: `create CNAME records ${forHosts}`,
+          url: `/zones/${zoneId}/dns_records?per_page=1`,
+        },
+        {
+          scope: "Zone",
+          check: "SSL and Certificates:Read",
+          required: "SSL and Certificates:Edit",
+          neededFor: sslOption ? `order the ${sslOption} certificate ${forHosts}` : `check edge certificates and Total TLS ${forHosts}`,
+          url: `/zones/${zoneId}/ssl/certificate_packs?per_page=1`,
+        },
+      ];
+    });
+    const probes: Array<PermissionCheck & { url: string }> = [
+      {
+        scope: "Account",
+        check: "Cloudflare Tunnel:Read",
+        required: configSource === "local" ? "Cloudflare Tunnel:Read" : "Cloudflare Tunnel:Edit",
+        neededFor: configSource === "local" ? "find the tunnel" : "create the tunnel and push ingress",
+        url: `/accounts/${accountId}/cfd_tunnel?per_page=1`,
+      },
+      ...zoneProbes,
+      ...(accessOption
+        ? [{
+            scope: "Account",
+            check: "Access: Apps and Policies:Read",
+            required: "Access: Apps and Policies:Edit",
+            neededFor: "protect hostnames with Access",
+            url: `/accounts/${accountId}/access/apps`,
+          }]
+        : []),
+    ];
+    const results = await Promise.all(probes.map(async ({ url, ...probe }) => {
+      try {
+        await cf(apiToken, "GET", url);
+        return undefined;
+      } catch (error) {
+        if (!isAuthorizationError(error)) throw error;
+        return probe;
       }
-      throw new Error("[cloudflare-tunnel] Unknown API error occurred");
+    }));
+    const missing = results.filter((probe) => probe !== undefined);
+    debugLog("← Token preflight", { missing: missing.map((probe) => probe.required) });
+    if (missing.length > 0) reportMissingPermissions(missing);
+  };
+
+  // Dry run: mutating requests are recorded instead of sent (resolved in configureServer)
+  let dryRun = false;
+  const plannedChanges: Array<{ method: string; url: string; body?: unknown }> = [];
+  const callCloudflareApi = createCloudflareApi({ apiBaseUrl, fetch: fetchImpl, debugLog });
+  const cf: CloudflareApiCall = async (apiToken, method, url, body, resultSchema) => {
+    if (!dryRun || method === "GET") {
+      return callCloudflareApi(apiToken, method, url, body, resultSchema);
+    }
+    plannedChanges.push({ method, url, ...(body !== undefined ? { body } : {}) });
+    debugLog("Dry run – skipped", method, url);
+    // Only a created tunnel's ID is used by later steps
+    const placeholder = /\/cfd_tunnel$/.test(url)
+      ? { id: DRY_RUN_TUNNEL_ID, name: tunnelName, account_tag: url.split("/")[2], created_at: new Date().toISOString() }
+      : { id: "(dry-run)", ...(typeof body === "object" && body !== null ? body : {}) };
+    return placeholder as never;
+  };
+
+  const printPlannedChanges = () => {
+    if (plannedChanges.length === 0) {
+      log.info("📝 Dry run: Cloudflare is already up to date, no changes needed");
+      return;
     }
+    const lines = plannedChanges.map(({ method, url, body }, index) =>
+      `  ${index + 1}. ${method.padEnd(6)} ${url}` + (body !== undefined ? `\n     ${JSON.stringify(body)}` : "")
+    );
+    log.info(
+      `📝 Dry run: ${plannedChanges.length} planned Cloudflare changes (nothing was applied):\n${lines.join("\n")}`,
+      { plannedChanges }
+    );
   };
 
   // -------------------------------------------------------------------
@@ -647,128 +1718,878 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
         attempt += 1;
         const message = error instanceof Error ? error.message : String(error);
         if (attempt > maxRetries) {
-          console.error(`[cloudflare-tunnel] ❌ Edge certificate request failed after ${maxRetries} retries: ${message}`);
+          log.error(`❌ Edge certificate request failed after ${maxRetries} retries: ${message}`);
           throw error;
         }
-        const delay = initialDelayMs * 2 ** (attempt - 1);
-        console.error(`[cloudflare-tunnel] ⚠️  Edge certificate request failed (attempt ${attempt}/${maxRetries}): ${message}`);
-        console.error(`[cloudflare-tunnel] ⏳ Retrying in ${delay}ms...`);
+        const delay = backoffDelay(attempt, initialDelayMs);
+        log.warn(`⚠️  Edge certificate request failed (attempt ${attempt}/${maxRetries}): ${message}`);
+        log.warn(`⏳ Retrying in ${delay}ms...`);
         await new Promise((resolve) => setTimeout(resolve, delay));
       }
     }
   };
 
-  // Helper function to spawn quick tunnel and extract URL
-  const spawnQuickTunnel = async (localTarget: string): Promise<{ child: ReturnType<typeof spawn>, url: string }> => {
-    const cloudflaredArgs = ["tunnel"];
-    
-    // Add logging options
-    cloudflaredArgs.push("--loglevel", "info"); // we must use info level to get the tunnel URL
-    if (logFile) {
-      cloudflaredArgs.push("--logfile", logFile);
-    }
-    
-    
-    // Add the URL target
-    cloudflaredArgs.push("--url", localTarget);
-    
-    debugLog("Spawning quick tunnel:", bin, cloudflaredArgs);
-    const child = spawn(
-      bin,
-      cloudflaredArgs,
-      {
-        stdio: ["ignore", "pipe", "pipe"],
-        detached: false,
-        windowsHide: true,
-        shell: process.platform === 'win32',
-      }
-    );
-    
-    console.log(`[cloudflare-tunnel] Quick tunnel process spawned with PID: ${child.pid}`);
-    
-    // Wait for the tunnel URL to be output
-    return new Promise((resolve, reject) => {
-      let urlFound = false;
-      const timeout = setTimeout(() => {
-        if (!urlFound) {
-          reject(new Error("Quick tunnel URL not found in output within 30 seconds"));
-        }
-      }, 30000);
-      
-      child.stdout?.on("data", (data) => {
-        const output = data.toString();
-        if (!globalState.shuttingDown || debug) {
-          if(effectiveLogLevel === "debug" || effectiveLogLevel === "info") {
-            console.log(`[cloudflared stdout] ${output.trim()}`);
-          } else {
-            // filter out outputs like 2025-07-30T09:29:37Z INF ... using regex
-            for(const line of output.split("\n")) {
-              if(!INFO_LOG_REGEX.test(line)) {
-                console.log(`[cloudflared stdout] ${line.trim()}`);
-              }
-            }
-          }
-        }
-      });
-      
-      child.stderr?.on("data", (data) => {
-        const error = data.toString().trim();
-        
-         // Look for the tunnel URL in various formats
-         const urlMatch = error.match(/https:\/\/[a-zA-Z0-9-]+\.trycloudflare\.com/);
-         if (urlMatch && !urlFound) {
-           urlFound = true;
-           clearTimeout(timeout);
-           resolve({ child, url: urlMatch[0] });
-         }
+  // Push the current URL and status to every connected client
+  // Edge connections (by connIndex) of the most recently spawned cloudflared
+  let edgeConnections = new Set<string>();
+  // QR code of the public URL for the overlay, rendered on the server as SVG
+  let qrCode = { url: "", svg: "" };
 
-        // Filter out noisy ICMP errors
-        if (error.includes('Failed to parse ICMP reply') || 
-            error.includes('unknow ip version 0')) {
-          if (logLevel === 'debug') {
-            console.log(`[cloudflared debug] ${error}`);
-          }
-          return;
-        }
-        
-        if (!globalState.shuttingDown || debug) {
-          if(effectiveLogLevel === "debug" || effectiveLogLevel === "info") {
-            console.error(`[cloudflared stderr] ${error}`);
-          } else {
-            // filter out outputs like 2025-07-30T09:29:37Z INF ... using regex
-            for(const line of error.split("\n")) {
-              if(!INFO_LOG_REGEX.test(line)) {
-                console.error(`[cloudflared stderr] ${line.trim()}`);
-              }
-            }
-          }
-        }
-      });
-      
-      child.on("error", (error) => {
-        clearTimeout(timeout);
-        reject(new Error(`Failed to start quick tunnel process: ${error.message}`));
-      });
-      
-      child.on("exit", (code, signal) => {
-        clearTimeout(timeout);
-        if (!urlFound) {
-          reject(new Error(`Quick tunnel process exited before URL was found (code: ${code}, signal: ${signal})`));
-        }
-      });
+  // Latest poll of the current cloudflared's metrics server
+  let tunnelMetrics: TunnelMetrics | undefined;
+  // Metrics server address of the current cloudflared, recorded in the daemon lock
+  let activeMetricsAddress: string | undefined;
+
+  const currentTunnelState = () => ({
+    url: tunnelUrl,
+    status: tunnelStatus,
+    connections: tunnelMetrics?.readyConnections ?? edgeConnections.size,
+    metrics: tunnelMetrics ?? null,
+    ...(overlayEnabled ? { qrCode: qrCode.svg } : {}),
+  });
+
+  const broadcastTunnelState = () => {
+    devServer?.ws.send({
+      type: "custom",
+      event: TUNNEL_STATE_EVENT,
+      data: currentTunnelState(),
     });
+    if (overlayEnabled && devServer && tunnelUrl && qrCode.url !== tunnelUrl) {
+      const url = tunnelUrl;
+      qrCode = { url, svg: "" };
+      QRCode.toString(url, { type: "svg", margin: 1 }).then(
+        (svg) => {
+          if (qrCode.url !== url) return;
+          qrCode = { url, svg };
+          broadcastTunnelState();
+        },
+        (error) => debugLog("← QR code generation failed", (error as Error).message)
+      );
+    }
   };
 
-  // Cleanup function to ensure cloudflared is always terminated
-  const killCloudflared = (signal: NodeJS.Signals = 'SIGTERM') => {
-    if (!child || child.killed) return;
+  // ---------------------------------------------------------------------
+  // Announcing the public URL: a `Network (tunnel)` line in Vite's own
+  // printUrls output, plus an optional terminal QR code and clipboard copy
+  // ---------------------------------------------------------------------
+  // Vite's `base` once printUrls has run, undefined until then
+  let printedUrlsBase: string | undefined;
+  let announcedUrl = "";
+  let sharedUrl = "";
 
-    // Set shutdown flag to silence logs unless debug is enabled
-    globalState.shuttingDown = true;
-    globalState.tunnelUrl = undefined;
+  // Printed with printUrls, or right away when printUrls ran before the URL was known
+  const printTunnelUrlLine = () => {
+    if (printedUrlsBase === undefined || !tunnelUrl || announcedUrl === tunnelUrl) return;
+    announcedUrl = tunnelUrl;
+    const url = new URL(printedUrlsBase, tunnelUrl).href;
+    // Lines up with Vite's own URLs; JSON output gets a regular record instead
+    if (logFormat === "json") {
+      log.info(`Network (tunnel): ${url}`, { url });
+    } else {
+      logSink.info(`  ➜  Network (tunnel): ${url}`);
+    }
+  };
 
-    try {
-      console.log(`[cloudflare-tunnel] 🛑 Terminating cloudflared process (PID: ${child.pid}) with ${signal}...`);
+  const wrapPrintUrls = (server: ViteDevServer | PreviewServer) => {
+    const printUrls = server.printUrls.bind(server);
+    server.printUrls = () => {
+      printUrls();
+      printedUrlsBase = server.config.base;
+      announcedUrl = "";
+      printTunnelUrlLine();
+    };
+  };
+
+  // Announce a new quick tunnel URL through printUrls, or on its own for servers
+  // that never call printUrls (middleware mode, or `listen()` from a script)
+  let announceTimer: ReturnType<typeof setTimeout> | undefined;
+  const announceQuickTunnelUrl = (server: ViteDevServer | PreviewServer, url: string) => {
+    if (printedUrlsBase !== undefined) return printTunnelUrlLine();
+    const announce = () => {
+      if (printedUrlsBase !== undefined || tunnelUrl !== url) return;
+      announcedUrl = url;
+      log.info(`🌐  Quick tunnel ready at: ${url}`);
+    };
+    const httpServer = server.httpServer;
+    if (!httpServer) return announce();
+    // The Vite CLI calls printUrls right after the server starts listening
+    const waitForPrintUrls = () => {
+      clearTimeout(announceTimer);
+      announceTimer = setTimeout(announce, PRINT_URLS_GRACE_MS);
+      announceTimer.unref?.();
+    };
+    if (httpServer.listening) {
+      waitForPrintUrls();
+    } else {
+      httpServer.once("listening", waitForPrintUrls);
+    }
+  };
+
+  const printTunnelQrCode = async (url: string) => {
+    try {
+      const qr = await QRCode.toString(url, { type: "terminal", small: true });
+      log.info(`📱 Scan to open ${url}\n${qr}`);
+    } catch (error) {
+      log.warn(`Could not render QR code: ${(error as Error).message}`);
+    }
+  };
+
+  const shareTunnelUrl = (url: string) => {
+    if (!url || sharedUrl === url) return;
+    sharedUrl = url;
+    if (printQrCode) {
+      void printTunnelQrCode(url);
+    }
+    if (copyToClipboard) {
+      copyTextToClipboard(url).then(
+        () => log.info(`📋 Copied ${url} to the clipboard`),
+        (error) => log.warn(`Could not copy the tunnel URL to the clipboard: ${(error as Error).message}`)
+      );
+    }
+  };
+
+  // ---------------------------------------------------------------------
+  // Shortcuts added to Vite's CLI (`h + enter` lists them). They drive the
+  // same killCloudflared/restartTunnel paths as the supervisor.
+  // ---------------------------------------------------------------------
+  let tunnelPaused = false;
+  // Zero Trust dashboard page of the named tunnel, set once its ID is known
+  let dashboardUrl: string | undefined;
+
+  // Resolves once cloudflared has exited, so its exit isn't mistaken for a crash
+  const stopTunnel = async () => {
+    const stopping = child;
+    killCloudflared("SIGTERM", true);
+    if (stopping && stopping.exitCode === null && stopping.signalCode === null) {
+      await new Promise((resolve) => stopping.once("exit", resolve));
+    }
+  };
+
+  const startTunnelAgain = async () => {
+    const restart = restartTunnel;
+    if (!restart) throw new Error("The tunnel was not started by this process and can't be restarted here");
+    globalState.shuttingDown = false;
+    tunnelPaused = false;
+    setTunnelStatus("starting");
+    await restart();
+    // killCloudflared forgets the URL; named tunnels keep theirs
+    if (!isQuickMode) setTunnelUrl(tunnelUrl);
+  };
+
+  const tunnelShortcuts: CLIShortcut<ViteDevServer | PreviewServer>[] = [
+    {
+      key: "tr",
+      description: "restart the Cloudflare tunnel",
+      async action() {
+        if (!restartTunnel) return log.warn("The tunnel was not started by this process and can't be restarted here");
+        log.info("🔄 Restarting tunnel...");
+        await stopTunnel();
+        await startTunnelAgain();
+      },
+    },
+    {
+      key: "tu",
+      description: "show the tunnel URL and QR code",
+      async action() {
+        if (!tunnelUrl || tunnelPaused) return log.warn("The tunnel has no public URL right now");
+        log.info(`🌐  ${tunnelUrl} (${tunnelStatus})`);
+        await printTunnelQrCode(tunnelUrl);
+      },
+    },
+    {
+      key: "tt",
+      description: "turn the tunnel off/on",
+      async action() {
+        if (!restartTunnel) return log.warn("The tunnel was not started by this process and can't be toggled here");
+        if (tunnelPaused) {
+          log.info("▶️  Turning the tunnel back on...");
+          await startTunnelAgain();
+          return;
+        }
+        await stopTunnel();
+        tunnelPaused = true;
+        setTunnelStatus("down");
+        log.info("⏸️  Tunnel turned off (tt + enter turns it back on)");
+      },
+    },
+    {
+      key: "td",
+      description: "open the tunnel in the Cloudflare dashboard",
+      async action() {
+        if (!dashboardUrl) return log.warn("Quick tunnels have no page in the Cloudflare dashboard");
+        try {
+          await openInBrowser(dashboardUrl);
+        } catch {
+          log.warn(`Could not open a browser; visit ${dashboardUrl}`);
+        }
+      },
+    },
+  ];
+
+  // Vite 5+ lets plugins add shortcuts by extending the options passed to bindCLIShortcuts
+  const addCLIShortcuts = (server: ViteDevServer | PreviewServer) => {
+    const shortcutServer = server as { bindCLIShortcuts?: (options?: { customShortcuts?: CLIShortcut<ViteDevServer | PreviewServer>[] }) => void };
+    if (typeof shortcutServer.bindCLIShortcuts !== "function") return;
+    const bindCLIShortcuts = shortcutServer.bindCLIShortcuts.bind(server);
+    shortcutServer.bindCLIShortcuts = (shortcutOptions) => bindCLIShortcuts({
+      ...shortcutOptions,
+      customShortcuts: [
+        ...(shortcutOptions?.customShortcuts ?? []).filter((shortcut) => !TUNNEL_SHORTCUTS.has(shortcut)),
+        ...tunnelShortcuts.map((shortcut) => {
+          const guarded: CLIShortcut<ViteDevServer | PreviewServer> = {
+            ...shortcut,
+            action: async (target) => {
+              try {
+                await shortcut.action?.(target);
+              } catch (error) {
+                log.error(`❌ ${(error as Error).message}`);
+              }
+            },
+          };
+          TUNNEL_SHORTCUTS.add(guarded);
+          return guarded;
+        }),
+      ],
+    });
+  };
+
+  // ---------------------------------------------------------------------
+  // Auth gate: challenges requests that came through the tunnel. Successful
+  // token/link logins get a random session ID cookie kept in memory.
+  // ---------------------------------------------------------------------
+  const authSessions = new Set<string>();
+  const oneTimeTokens = new Set<string>();
+
+  const isTunnelRequest = (req: Connect.IncomingMessage): boolean => {
+    // cloudflared always adds Cf-Connecting-Ip; local requests never have it
+    if (req.headers["cf-connecting-ip"] !== undefined) return true;
+    const host = (req.headers.host ?? "").replace(/:\d+$/, "").toLowerCase();
+    if (!host) return false;
+    if (host.endsWith(".trycloudflare.com")) return true;
+    return allHostnames.some((pattern) => hostMatches(pattern, host));
+  };
+
+  const printOneTimeLink = () => {
+    // A link to a tunnel that is down would be spent on an error page
+    if (!oneTimeLinkEnabled || !tunnelUrl || tunnelStatus === "down") return;
+    const oneTimeToken = randomBytes(24).toString("base64url");
+    oneTimeTokens.add(oneTimeToken);
+    const link = new URL(tunnelUrl);
+    link.searchParams.set(AUTH_QUERY_PARAM, oneTimeToken);
+    log.info(`🔑 One-time login link: ${link.href}`);
+  };
+
+  // A session cookie or valid basic credentials; login tokens are handled by the middleware
+  const hasTunnelCredentials = (req: Connect.IncomingMessage): boolean => {
+    const cookies = Object.fromEntries(
+      (req.headers.cookie ?? "").split(";").map((pair) => {
+        const [name = "", ...value] = pair.trim().split("=");
+        return [name, value.join("=")];
+      })
+    );
+    const session = cookies[AUTH_COOKIE_NAME];
+    if (session && authSessions.has(session)) return true;
+
+    const basic = authConfig?.basic;
+    if (!basic) return false;
+    const [scheme, encoded = ""] = (req.headers.authorization ?? "").split(" ");
+    return scheme?.toLowerCase() === "basic" && safeEqual(Buffer.from(encoded, "base64").toString(), `${basic.username}:${basic.password}`);
+  };
+
+  const authMiddleware: Connect.NextHandleFunction = (req, res, next) => {
+    if (!authConfig || !isTunnelRequest(req) || hasTunnelCredentials(req)) return next();
+
+    const { basic, token } = authConfig;
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const presented = url.searchParams.get(AUTH_QUERY_PARAM);
+    if (presented !== null) {
+      const valid = (token !== undefined && safeEqual(presented, token)) || oneTimeTokens.delete(presented);
+      if (valid) {
+        const sessionId = randomBytes(24).toString("base64url");
+        authSessions.add(sessionId);
+        url.searchParams.delete(AUTH_QUERY_PARAM);
+        res.statusCode = 302;
+        res.setHeader("Set-Cookie", `${AUTH_COOKIE_NAME}=${sessionId}; Path=/; HttpOnly; Secure; SameSite=Lax`);
+        res.setHeader("Location", url.pathname + url.search);
+        res.end();
+        return;
+      }
+      debugLog("← Rejected tunnel auth token", req.url);
+    }
+
+    res.statusCode = 401;
+    if (basic) {
+      res.setHeader("WWW-Authenticate", 'Basic realm="Vite tunnel", charset="UTF-8"');
+    }
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.end("Authentication required. Use the login link or credentials configured for this tunnel.\n");
+  };
+
+  // WebSocket upgrades (HMR, proxied sockets) never reach the middleware stack,
+  // so they are refused here before Vite's own upgrade listeners see them
+  const authUpgradeListener = (req: Connect.IncomingMessage, socket: Duplex) => {
+    if (!authConfig || !isTunnelRequest(req) || hasTunnelCredentials(req)) return;
+    const presented = new URL(req.url ?? "/", "http://localhost").searchParams.get(AUTH_QUERY_PARAM);
+    if (presented !== null && authConfig.token !== undefined && safeEqual(presented, authConfig.token)) return;
+    debugLog("← Rejected unauthenticated WebSocket upgrade", req.url);
+    socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\nContent-Length: 0\r\n\r\n");
+  };
+
+  // ---------------------------------------------------------------------
+  // Request inspector: a ring buffer of tunnel requests, persisted to
+  // Vite's cache dir and browsable/replayable from the local server.
+  // ---------------------------------------------------------------------
+  let inspectedRequests: InspectedRequest[] = [];
+  let inspectFile: string | undefined;
+  let inspectSaveTimer: ReturnType<typeof setTimeout> | undefined;
+  let inspectSequence = 0;
+
+  const loadInspectedRequests = async (file: string) => {
+    inspectFile = file;
+    try {
+      const saved = JSON.parse(await fs.readFile(file, "utf8"));
+      if (Array.isArray(saved)) {
+        inspectedRequests = [...saved, ...inspectedRequests].slice(-inspectConfig!.maxRequests);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        debugLog("← Could not read inspected requests", (error as Error).message);
+      }
+    }
+  };
+
+  // Writes are debounced so bursts of webhooks don't rewrite the file for every request
+  const scheduleInspectSave = () => {
+    if (!inspectFile || inspectSaveTimer) return;
+    inspectSaveTimer = setTimeout(async () => {
+      inspectSaveTimer = undefined;
+      try {
+        await fs.mkdir(path.dirname(inspectFile!), { recursive: true });
+        await fs.writeFile(inspectFile!, JSON.stringify(inspectedRequests.map(redactInspectedRequest)));
+      } catch (error) {
+        debugLog("← Could not save inspected requests", (error as Error).message);
+      }
+    }, 250);
+    inspectSaveTimer.unref();
+  };
+
+  const recordInspectedRequest = (entry: InspectedRequest) => {
+    inspectedRequests.push(entry);
+    inspectedRequests = inspectedRequests.slice(-inspectConfig!.maxRequests);
+    scheduleInspectSave();
+  };
+
+  // Re-send a captured request to the local server; the replay is captured too
+  const replayInspectedRequest = async (server: ViteDevServer | PreviewServer, source: InspectedRequest) => {
+    const { host, port } = normalizeAddress(server.httpServer?.address());
+    const headers: Record<string, string> = { [REPLAY_HEADER]: source.id };
+    for (const [name, value] of Object.entries(source.headers)) {
+      if (value === undefined || REPLAY_SKIPPED_HEADERS.has(name) || name === REPLAY_HEADER || value === REDACTED_VALUE) continue;
+      headers[name] = Array.isArray(value) ? value.join(", ") : value;
+    }
+    const hasBody = source.body !== "" && source.method !== "GET" && source.method !== "HEAD";
+    const response = await fetch(`${getLocalTarget(host, port ?? 5173)}${source.url}`, {
+      method: source.method,
+      headers,
+      ...(hasBody ? { body: Buffer.from(source.body, source.bodyEncoding) } : {}),
+      redirect: "manual",
+    });
+    await response.arrayBuffer();
+    return response.status;
+  };
+
+  const createInspectMiddleware = (server: ViteDevServer | PreviewServer): Connect.NextHandleFunction => (req, res, next) => {
+    const fromTunnel = isTunnelRequest(req);
+    const pathname = (req.url ?? "/").split("?")[0]!;
+
+    if (pathname === INSPECT_PATH || pathname.startsWith(`${INSPECT_PATH}/`)) {
+      // Captured headers may hold credentials, so the inspector is never exposed through the tunnel
+      if (fromTunnel) return next();
+      const sendJson = (status: number, payload: unknown) => {
+        res.statusCode = status;
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(payload));
+      };
+      // Clearing and replaying change state, so other sites must not trigger them from a browser
+      if (req.method !== "GET" && !isSameOriginRequest(req)) {
+        return sendJson(403, { error: "Cross-origin requests are not allowed" });
+      }
+      const replayMatch = pathname.match(/^\/__tunnel\/inspect\/requests\/([^/]+)\/replay$/);
+      if (pathname === INSPECT_PATH && req.method === "GET") {
+        res.setHeader("Content-Type", "text/html; charset=utf-8");
+        res.end(renderInspectorPage());
+      } else if (pathname === `${INSPECT_PATH}/requests` && req.method === "GET") {
+        sendJson(200, [...inspectedRequests].reverse());
+      } else if (pathname === `${INSPECT_PATH}/requests` && req.method === "DELETE") {
+        inspectedRequests = [];
+        scheduleInspectSave();
+        sendJson(200, { cleared: true });
+      } else if (replayMatch && req.method === "POST") {
+        const source = inspectedRequests.find((entry) => entry.id === decodeURIComponent(replayMatch[1]!));
+        if (!source) return sendJson(404, { error: "Request not found" });
+        replayInspectedRequest(server, source).then(
+          (status) => sendJson(200, { status }),
+          (error) => sendJson(502, { error: (error as Error).message })
+        );
+      } else {
+        sendJson(404, { error: "Not found" });
+      }
+      return;
+    }
+
+    const replayOf = req.headers[REPLAY_HEADER];
+    if (!fromTunnel && typeof replayOf !== "string") return next();
+
+    const started = Date.now();
+    const entry: InspectedRequest = {
+      id: `${started.toString(36)}-${(++inspectSequence).toString(36)}`,
+      time: new Date(started).toISOString(),
+      method: req.method ?? "GET",
+      url: req.url ?? "/",
+      headers: { ...req.headers },
+      body: "",
+      bodyEncoding: "utf8",
+      bodyTruncated: false,
+      ...(typeof replayOf === "string" ? { replayOf } : {}),
+    };
+
+    // Listen for body chunks only once the app starts reading the request, since
+    // a `data` listener added now would start the flow before its own handlers
+    const chunks: Buffer[] = [];
+    let bodySize = 0;
+    const captureChunk = (chunk: Buffer | string) => {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      if (bodySize < inspectConfig!.maxBodyBytes) {
+        chunks.push(buffer.subarray(0, inspectConfig!.maxBodyBytes - bodySize));
+      }
+      bodySize += buffer.length;
+    };
+    req.once("resume", () => req.on("data", captureChunk));
+
+    res.once("close", () => {
+      req.off("data", captureChunk);
+      const body = Buffer.concat(chunks);
+      try {
+        entry.body = new TextDecoder("utf-8", { fatal: true }).decode(body);
+      } catch {
+        entry.body = body.toString("base64");
+        entry.bodyEncoding = "base64";
+      }
+      entry.bodyTruncated = bodySize > inspectConfig!.maxBodyBytes;
+      if (res.writableFinished) entry.status = res.statusCode;
+      entry.durationMs = Date.now() - started;
+      recordInspectedRequest(entry);
+    });
+    next();
+  };
+
+  const metricsMiddleware: Connect.NextHandleFunction = (req, res, next) => {
+    if ((req.url ?? "/").split("?")[0] !== METRICS_PATH || isTunnelRequest(req)) return next();
+    const { url, status, connections, metrics } = currentTunnelState();
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ url, status, connections, metrics }));
+  };
+
+  // Installs the inspector and auth gate (in that order, so rejected requests are captured too)
+  const installMiddlewares = (server: ViteDevServer | PreviewServer) => {
+    if (inspectConfig) {
+      const suffix = sessionKind === "preview" ? "-preview" : "";
+      void loadInspectedRequests(path.join(server.config.cacheDir, `cloudflare-tunnel-requests${suffix}.json`));
+      server.middlewares.use(createInspectMiddleware(server));
+      server.httpServer?.once("listening", () => {
+        const { host, port } = normalizeAddress(server.httpServer?.address());
+        log.info(`🔎 Request inspector: ${getLocalTarget(host, port ?? 5173)}${INSPECT_PATH}`);
+      });
+    }
+    server.middlewares.use(metricsMiddleware);
+    server.middlewares.use(authMiddleware);
+    if (authConfig) server.httpServer?.prependListener("upgrade", authUpgradeListener);
+  };
+
+  const setTunnelStatus = (status: TunnelStatus) => {
+    if (tunnelStatus === status) return;
+    debugLog("Tunnel status", tunnelStatus, "→", status);
+    tunnelStatus = status;
+    globalState.tunnelStatus = status;
+    broadcastTunnelState();
+  };
+
+  // Update the public URL, notifying `onTunnelUrlChange` when a known URL changes
+  const setTunnelUrl = (url: string) => {
+    const previousUrl = tunnelUrl;
+    tunnelUrl = url;
+    globalState.tunnelUrl = Promise.resolve(url);
+    if (previousUrl !== url) {
+      broadcastTunnelState();
+    }
+    if (previousUrl && previousUrl !== url) {
+      void invokeHook("onTunnelUrlChange", url, previousUrl);
+      printOneTimeLink();
+    }
+  };
+
+  // -------------------------------------------------------------------
+  // Persistent mode: cloudflared runs detached with its output redirected
+  // to a log file, and a lockfile lets the next dev server attach to it.
+  // Both paths live in Vite's cache dir and are set by configureServer.
+  // -------------------------------------------------------------------
+  let daemonLockFile: string | undefined;
+  let daemonLogFile: string | undefined;
+  let stopFollowingDaemonLog: (() => void) | undefined;
+
+  // Locally-managed tunnels (`configSource: 'local'`): config.yml path, set by configureServer
+  let localConfigFile: string | undefined;
+
+  // Write the tunnel credentials unless a file for this tunnel already exists
+  const ensureTunnelCredentials = async (apiToken: string, accountId: string, tunnelId: string, tunnelSecret?: string) => {
+    const credentialsFile = path.join(path.dirname(localConfigFile!), `${tunnelId}.json`);
+    const existing = await readTunnelCredentials(credentialsFile);
+    if (existing?.TunnelID === tunnelId) return credentialsFile;
+
+    if (!tunnelSecret) {
+      // The secret of an existing tunnel is only available inside its token
+      const token = await cf(apiToken, "GET", `/accounts/${accountId}/cfd_tunnel/${tunnelId}/token`, undefined, z.string());
+      tunnelSecret = TunnelTokenSchema.parse(JSON.parse(Buffer.from(token, "base64").toString("utf8"))).s;
+    }
+    await fs.mkdir(path.dirname(credentialsFile), { recursive: true });
+    await fs.writeFile(
+      credentialsFile,
+      JSON.stringify({ AccountTag: accountId, TunnelSecret: tunnelSecret, TunnelID: tunnelId }, null, 2),
+      { mode: 0o600 }
+    );
+    const gitignoreFile = path.join(path.dirname(credentialsFile), ".gitignore");
+    await fs.writeFile(gitignoreFile, "# Tunnel credentials are secrets\n*.json\n", { flag: "wx" }).catch(() => {});
+    log.info(`🔑 Wrote tunnel credentials to ${credentialsFile}`);
+    return credentialsFile;
+  };
+
+  const writeLocalTunnelConfig = async (tunnelId: string, localTarget: string) => {
+    await fs.mkdir(path.dirname(localConfigFile!), { recursive: true });
+    await fs.writeFile(localConfigFile!, renderTunnelConfigYaml(tunnelId, buildIngressRules(localTarget)));
+    debugLog("Wrote cloudflared config", localConfigFile);
+  };
+
+  const spawnCloudflared = (args: string[]) => {
+    if (!persistent || !daemonLogFile) {
+      return spawn(bin, args, {
+        stdio: ["ignore", "pipe", "pipe"],
+        // Keep child in same process group (default behavior)
+        detached: false,
+        // Prevent an extra console window on Windows and ensure compatibility
+        windowsHide: true,
+        // Use the system shell on Windows to properly locate .exe if needed
+        shell: process.platform === 'win32',
+      });
+    }
+
+    // A detached process must not write to our pipes: they break when Vite exits.
+    // Vite only creates its cache directory once it has optimized dependencies
+    mkdirSync(path.dirname(daemonLogFile), { recursive: true });
+    const logFd = openSync(daemonLogFile, "a");
+    const logOffset = fstatSync(logFd).size;
+    let proc: ReturnType<typeof spawn>;
+    try {
+      proc = spawn(bin, args, {
+        stdio: ["ignore", logFd, logFd],
+        detached: true,
+        windowsHide: true,
+        shell: process.platform === 'win32',
+      });
+    } finally {
+      closeSync(logFd);
+    }
+    proc.unref();
+
+    // Feed the log file back in as the process output so URL and readiness
+    // detection work exactly as they do for piped processes
+    stopFollowingDaemonLog?.();
+    const { stream, stop } = followFile(daemonLogFile, logOffset);
+    stopFollowingDaemonLog = stop;
+    proc.stderr = stream;
+    proc.on("exit", stop);
+    return proc;
+  };
+
+  // Record the running daemon so the next dev server can attach to it
+  const writeDaemonLock = async () => {
+    if (!persistent || !daemonLockFile || !child?.pid || !globalState.configHash) return;
+    // The command line tells our daemon apart from a process that later reuses its PID
+    const commandHash = hashProcessCommand(child.pid);
+    if (!commandHash) {
+      debugLog("Could not read the cloudflared command line; not writing a daemon lockfile");
+      return;
+    }
+    const lock: DaemonLock = {
+      pid: child.pid,
+      commandHash,
+      configHash: globalState.configHash,
+      url: tunnelUrl,
+      startedAt: new Date().toISOString(),
+      ...(activeMetricsAddress ? { metricsAddress: activeMetricsAddress } : {}),
+    };
+    try {
+      await fs.mkdir(path.dirname(daemonLockFile), { recursive: true });
+      await fs.writeFile(daemonLockFile, JSON.stringify(lock, null, 2));
+      debugLog("Wrote daemon lockfile", daemonLockFile, lock);
+    } catch (error) {
+      log.warn(`⚠️  Failed to write lockfile ${daemonLockFile}: ${(error as Error).message}`);
+    }
+  };
+
+  // -------------------------------------------------------------------
+  // Supervisor: restart cloudflared with exponential back-off when it
+  // dies underneath a running dev server. `restartTunnel` is provided by
+  // configureServer once the initial tunnel is up.
+  // -------------------------------------------------------------------
+  let restartTunnel: (() => Promise<void>) | undefined;
+  let restartAttempts = 0;
+  let restartTimer: ReturnType<typeof setTimeout> | undefined;
+  // A connection must stay up this long before the attempt counter resets,
+  // otherwise a crash loop right after registering would never give up
+  const STABLE_CONNECTION_MS = 10000;
+
+  const scheduleRestart = (reason: string) => {
+    if (!restartPolicy.enabled || !restartTunnel || restartTimer) return;
+    if (restartAttempts >= restartPolicy.maxAttempts) {
+      log.error(`❌ cloudflared ${reason}; giving up after ${restartPolicy.maxAttempts} restart attempts`);
+      setTunnelStatus("down");
+      return;
+    }
+    restartAttempts += 1;
+    const delay = backoffDelay(restartAttempts, restartPolicy.initialDelayMs, restartPolicy.maxDelayMs);
+    log.warn(`⚠️  cloudflared ${reason}`);
+    log.warn(`🔄 Restarting tunnel in ${delay}ms (attempt ${restartAttempts}/${restartPolicy.maxAttempts})...`);
+    setTunnelStatus("reconnecting");
+    restartTimer = setTimeout(async () => {
+      restartTimer = undefined;
+      if (globalState.shuttingDown) return;
+      try {
+        await restartTunnel?.();
+      } catch (error) {
+        scheduleRestart(`restart failed: ${(error as Error).message}`);
+      }
+    }, delay);
+  };
+
+  const cancelRestart = () => {
+    if (restartTimer) {
+      clearTimeout(restartTimer);
+      restartTimer = undefined;
+    }
+  };
+
+  // Poll cloudflared's metrics server; returns a function that stops polling.
+  // `connections` identifies the process being watched so stale polls are ignored
+  const watchMetrics = (
+    metricsAddress: string,
+    connections: Set<string>,
+    onReady: () => void,
+    isRegistered: () => boolean,
+  ): (() => void) => {
+    let polling = false;
+    const pollMetrics = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const signal = AbortSignal.timeout(METRICS_POLL_INTERVAL_MS);
+        const readyResponse = await fetch(`http://${metricsAddress}/ready`, { signal });
+        const ready = (await readyResponse.json().catch(() => ({}))) as { readyConnections?: number };
+        const samples = parsePrometheusMetrics(await (await fetch(`http://${metricsAddress}/metrics`, { signal })).text());
+        if (edgeConnections !== connections || globalState.shuttingDown) return;
+
+        const totalRequests = samples.cloudflared_tunnel_total_requests ?? 0;
+        const requestErrors = samples.cloudflared_tunnel_request_errors ?? 0;
+        const next: TunnelMetrics = {
+          readyConnections: readyResponse.ok ? ready.readyConnections ?? 0 : 0,
+          totalRequests,
+          requestErrors,
+          errorRate: totalRequests > 0 ? requestErrors / totalRequests : 0,
+          updatedAt: new Date().toISOString(),
+        };
+        const changed = !tunnelMetrics ||
+          (["readyConnections", "totalRequests", "requestErrors"] as const).some((key) => tunnelMetrics![key] !== next[key]);
+        tunnelMetrics = next;
+
+        if (next.readyConnections > 0) {
+          if (tunnelStatus === "reconnecting" && isRegistered()) log.info("✅ Edge connections restored");
+          onReady();
+          setTunnelStatus("connected");
+        } else if (isRegistered() && tunnelStatus === "connected") {
+          log.warn("⚠️  All edge connections lost; cloudflared is reconnecting...");
+          setTunnelStatus("reconnecting");
+        }
+        if (changed) broadcastTunnelState();
+      } catch (error) {
+        debugLog("← Metrics poll failed", (error as Error).message);
+      } finally {
+        polling = false;
+      }
+    };
+    const timer = setInterval(pollMetrics, METRICS_POLL_INTERVAL_MS);
+    timer.unref?.();
+    return () => clearInterval(timer);
+  };
+
+  // Wire the ready/exit lifecycle callbacks to a freshly spawned cloudflared process
+  const attachLifecycleHooks = (
+    proc: ReturnType<typeof spawn>,
+    getUrl: () => string,
+    onRegistered?: () => void,
+    metricsAddress?: string,
+  ) => {
+    let registered = false;
+    let stableTimer: ReturnType<typeof setTimeout> | undefined;
+    const connections = new Set<string>();
+    edgeConnections = connections;
+    const trackEdgeConnections = (data: Buffer) => {
+      const before = connections.size;
+      for (const line of data.toString().split("\n")) {
+        const { message, fields } = parseCloudflaredLine(line);
+        if (fields.connIndex === undefined) continue;
+        if (CONNECTION_REGISTERED_REGEX.test(message)) {
+          connections.add(fields.connIndex);
+        } else if (EDGE_CONNECTION_LOST_REGEX.test(message)) {
+          connections.delete(fields.connIndex);
+        }
+      }
+      if (connections.size !== before && edgeConnections === connections) {
+        broadcastTunnelState();
+      }
+    };
+    const markRegistered = () => {
+      if (registered) return;
+      registered = true;
+      stableTimer = setTimeout(() => { restartAttempts = 0; }, STABLE_CONNECTION_MS);
+      stableTimer.unref?.();
+      setTunnelStatus("connected");
+      onRegistered?.();
+      void invokeHook("onTunnelReady", {
+        url: getUrl(),
+        mode: isQuickMode ? "quick" : "named",
+        hostnames: isQuickMode ? [new URL(getUrl()).hostname] : allHostnames,
+      });
+    };
+    // Fallback for cloudflared builds without `/ready`; only visible at info log level
+    const detectRegistration = (data: Buffer) => {
+      if (!registered && CONNECTION_REGISTERED_REGEX.test(data.toString())) markRegistered();
+    };
+
+    // `/ready` drives readiness and reconnect detection; `/metrics` adds request totals
+    activeMetricsAddress = metricsAddress;
+    const stopMetrics = metricsAddress
+      ? watchMetrics(metricsAddress, connections, markRegistered, () => registered)
+      : undefined;
+
+    proc.stdout?.on("data", detectRegistration);
+    proc.stderr?.on("data", detectRegistration);
+    proc.stdout?.on("data", trackEdgeConnections);
+    proc.stderr?.on("data", trackEdgeConnections);
+    proc.on("exit", (code, signal) => {
+      clearTimeout(stableTimer);
+      stopMetrics?.();
+      connections.clear();
+      if (edgeConnections === connections) tunnelMetrics = undefined;
+      // A process that is no longer the current child was replaced on purpose
+      const isCurrent = globalState.child === proc;
+      const expected = !!globalState.shuttingDown || !isCurrent;
+      if (isCurrent && !expected) {
+        scheduleRestart(`exited unexpectedly (code: ${code}, signal: ${signal})`);
+      } else if (isCurrent) {
+        setTunnelStatus("down");
+      }
+      void invokeHook("onTunnelExit", { code, signal, expected });
+    });
+  };
+
+  // Helper function to spawn quick tunnel and extract URL
+  const spawnQuickTunnel = async (localTarget: string): Promise<{ child: ReturnType<typeof spawn>, url: string }> => {
+    const cloudflaredArgs = ["tunnel"];
+    
+    // Add logging options
+    cloudflaredArgs.push("--loglevel", "info"); // we must use info level to get the tunnel URL
+    if (logFile) {
+      cloudflaredArgs.push("--logfile", logFile);
+    }
+    
+    
+    // Local metrics server for readiness and health polling
+    const metricsAddress = `127.0.0.1:${await getFreePort()}`;
+    cloudflaredArgs.push("--metrics", metricsAddress);
+
+    // Add the URL target
+    cloudflaredArgs.push("--url", localTarget);
+    
+    debugLog("Spawning quick tunnel:", bin, cloudflaredArgs);
+    const child = spawnCloudflared(cloudflaredArgs);
+    
+    log.info(`Quick tunnel process spawned with PID: ${child.pid}`);
+
+    let quickUrl = "";
+    attachLifecycleHooks(child, () => quickUrl, undefined, metricsAddress);
+    
+    // Wait for the tunnel URL to be output
+    return new Promise((resolve, reject) => {
+      let urlFound = false;
+      const timeout = setTimeout(() => {
+        if (!urlFound) {
+          reject(new Error("Quick tunnel URL not found in output within 30 seconds"));
+        }
+      }, 30000);
+      
+      child.stdout?.on("data", (data) => logCloudflaredOutput(data));
+      
+      child.stderr?.on("data", (data) => {
+        const output = data.toString();
+        
+         // Look for the tunnel URL in various formats
+         const urlMatch = output.match(/https:\/\/[a-zA-Z0-9-]+\.trycloudflare\.com/);
+         if (urlMatch && !urlFound) {
+           urlFound = true;
+           quickUrl = urlMatch[0];
+           clearTimeout(timeout);
+           resolve({ child, url: urlMatch[0] });
+         }
+
+        logCloudflaredOutput(output);
+      });
+      
+      child.on("error", (error) => {
+        clearTimeout(timeout);
+        reject(new Error(`Failed to start quick tunnel process: ${error.message}`));
+      });
+      
+      child.on("exit", (code, signal) => {
+        clearTimeout(timeout);
+        if (!urlFound) {
+          reject(new Error(`Quick tunnel process exited before URL was found (code: ${code}, signal: ${signal})`));
+        }
+      });
+    });
+  };
+
+  // Cleanup function to ensure cloudflared is always terminated.
+  // In persistent mode the daemon is left running unless `force` is set.
+  const killCloudflared = (signal: NodeJS.Signals = 'SIGTERM', force = false) => {
+    cancelRestart();
+    if (!child || child.killed) return;
+
+    if (persistent && !force) {
+      // Several shutdown paths end up here; only detach (and log) once
+      if (stopFollowingDaemonLog) {
+        log.info(`Leaving cloudflared (PID: ${child.pid}) running for the next dev server`);
+        stopFollowingDaemonLog();
+        stopFollowingDaemonLog = undefined;
+      }
+      globalState.shuttingDown = true;
+      return;
+    }
+
+    // Set shutdown flag to silence logs unless debug is enabled
+    globalState.shuttingDown = true;
+    globalState.tunnelUrl = undefined;
+
+    try {
+      log.info(`🛑 Terminating cloudflared process (PID: ${child.pid}) with ${signal}...`);
       const killed = child.kill(signal);
 
       // On Windows some signals (e.g. SIGTERM) may be no-ops for non-Node processes. Fallback to taskkill if needed.
@@ -776,22 +2597,24 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
         exec(`taskkill /pid ${child.pid} /T /F`, () => {});
       }
 
-      // Force kill after timeout if graceful termination fails
+      // Force kill after timeout if graceful termination fails. `child` may
+      // already point at a replacement process by then, so keep this one.
+      const terminating = child;
       if (signal === 'SIGTERM') {
         setTimeout(() => {
-          if (child && !child.killed) {
-            console.log('[cloudflare-tunnel] 🛑 Force killing cloudflared process...');
+          if (terminating.exitCode === null && terminating.signalCode === null) {
+            log.info('🛑 Force killing cloudflared process...');
             if (process.platform === 'win32') {
-              exec(`taskkill /pid ${child.pid} /T /F`, () => {});
+              exec(`taskkill /pid ${terminating.pid} /T /F`, () => {});
             } else {
-              child.kill('SIGKILL');
+              terminating.kill('SIGKILL');
             }
           }
         }, 2000);
       }
     } catch (error) {
       // Process might already be dead, ignore errors
-      console.log(`[cloudflare-tunnel] Note: Error killing cloudflared: ${error}`);
+      log.info(`Note: Error killing cloudflared: ${error}`);
     }
   };
 
@@ -828,20 +2651,20 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
     // whole dev server which is particularly painful when Vite restarts the
     // process due to HMR / config changes.
     process.once('uncaughtException', (error) => {
-      console.error('[cloudflare-tunnel] Uncaught exception, cleaning up cloudflared...', error);
+      log.error(`Uncaught exception, cleaning up cloudflared... ${error instanceof Error ? error.stack : error}`);
       killCloudflared('SIGTERM');
     });
 
     process.once('unhandledRejection', (reason) => {
-      console.error('[cloudflare-tunnel] Unhandled rejection, cleaning up cloudflared...', reason);
+      log.error(`Unhandled rejection, cleaning up cloudflared... ${reason instanceof Error ? reason.stack : reason}`);
       killCloudflared('SIGTERM');
     });
   };
 
-  const configureServer = async (server: ViteDevServer) => {
+  const configureServer = async (server: ViteDevServer | PreviewServer) => {
     // Helper to generate consistent metadata comment for DNS records
     const generateDnsComment = () => {
-      return `vite-plugin-cloudflare-tunnel:${tunnelName}`;
+      return `${DNS_COMMENT_PREFIX}${tunnelName}`;
     };
 
     try {
@@ -854,12 +2677,75 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
       // ------------------------------------------------------------
 
       const { host: serverHost, port: detectedPort } = normalizeAddress(server.httpServer?.address());
-      const port = userProvidedPort || detectedPort || server.config.server.port || 5173;
-      const newConfigHash = JSON.stringify({ isQuickMode, hostname, port, tunnelName, dnsOption, sslOption });
+      // The `port` option describes the dev server; preview always uses its own port
+      const port = sessionKind === 'preview'
+        ? detectedPort || server.config.preview.port || 4173
+        : userProvidedPort || detectedPort || server.config.server.port || 5173;
+      const newConfigHash = computeConfigHash(port);
+      dryRun = !isQuickMode && (dryRunOption ?? /^(1|true)$/i.test(process.env.CLOUDFLARE_TUNNEL_DRY_RUN ?? ""));
+      plannedChanges.length = 0;
 
-      if (globalState.child && !globalState.child.killed && globalState.configHash === newConfigHash) {
+      // Persistent mode: attach to a daemon left behind by a previous dev
+      // server when it was started with the same configuration
+      const daemonSuffix = sessionKind === 'preview' ? '-preview' : '';
+      daemonLockFile = path.join(server.config.cacheDir, `cloudflare-tunnel${daemonSuffix}.lock.json`);
+      daemonLogFile = path.join(server.config.cacheDir, `cloudflared-daemon${daemonSuffix}.log`);
+      localConfigFile = path.join(path.resolve(server.config.root, localConfigDirOption), `config${daemonSuffix}.yml`);
+      branchLedgerFile = path.join(server.config.cacheDir, "cloudflare-tunnel-branches.json");
+      const daemonLock = await readDaemonLock(daemonLockFile);
+      const daemonAlive = !!daemonLock && isDaemonProcess(daemonLock);
+      if (!dryRun && persistent && daemonLock && daemonAlive && daemonLock.configHash === newConfigHash) {
+        log.info(`Attaching to running cloudflared (PID: ${daemonLock.pid}) at ${daemonLock.url}`);
+        globalState.configHash = newConfigHash;
+        globalState.shuttingDown = false;
+        setTunnelUrl(daemonLock.url);
+        setTunnelStatus("connected");
+        void invokeHook("onTunnelReady", {
+          url: daemonLock.url,
+          mode: isQuickMode ? "quick" : "named",
+          hostnames: isQuickMode ? [new URL(daemonLock.url).hostname] : allHostnames,
+        });
+
+        // Keep the health and reconnect status current, as for a spawned process
+        const connections = new Set<string>();
+        edgeConnections = connections;
+        activeMetricsAddress = daemonLock.metricsAddress;
+        const stopMetrics = daemonLock.metricsAddress
+          ? watchMetrics(daemonLock.metricsAddress, connections, () => {}, () => true)
+          : undefined;
+
+        // We are not the parent, so watch the PID instead of waiting for an exit event
+        const watchdog = setInterval(() => {
+          if (isDaemonProcess(daemonLock)) return;
+          clearInterval(watchdog);
+          stopMetrics?.();
+          tunnelMetrics = undefined;
+          log.error(`❌ Attached cloudflared (PID: ${daemonLock.pid}) is no longer running; restart Vite to start a new tunnel`);
+          setTunnelStatus("down");
+        }, 5000);
+        watchdog.unref();
+        server.httpServer?.once("close", () => {
+          clearInterval(watchdog);
+          stopMetrics?.();
+        });
+        return;
+      }
+      if (!dryRun && daemonLock) {
+        if (daemonAlive && globalState.child?.pid !== daemonLock.pid) {
+          log.info(`Stopping cloudflared daemon (PID: ${daemonLock.pid}) left by a previous dev server...`);
+          try {
+            process.kill(daemonLock.pid, 'SIGTERM');
+          } catch (_) {
+            /* ignore */
+          }
+        }
+        await fs.rm(daemonLockFile, { force: true });
+      }
+
+      if (!dryRun && globalState.child && !globalState.child.killed && globalState.configHash === newConfigHash) {
         tunnelUrl = await globalState.tunnelUrl ?? "";
-        console.log('[cloudflare-tunnel] Config unchanged – re-using existing tunnel');
+        broadcastTunnelState();
+        log.info('Config unchanged – re-using existing tunnel');
         // Reset shutdown flag in case it was set from a previous shutdown
         globalState.shuttingDown = false;
         registerExitHandler();
@@ -868,7 +2754,7 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
 
       // Config changed OR no tunnel running – shut down old process if any
       if (globalState.child && !globalState.child.killed) {
-        console.log('[cloudflare-tunnel] Config changed – terminating previous tunnel...');
+        log.info('Config changed – terminating previous tunnel...');
         try {
           globalState.child.kill('SIGTERM');
         } catch (_) {
@@ -880,21 +2766,22 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
       delete globalState.configHash;
       // Reset shutdown flag for the new tunnel
       globalState.shuttingDown = false;
+      setTunnelStatus("starting");
 
       // Handle quick tunnel mode
       if (isQuickMode) {
-        console.log('[cloudflare-tunnel] Starting quick tunnel mode...');
+        log.info('Starting quick tunnel mode...');
         debugLog("Quick tunnel mode - no API token or hostname required");
         
         // 1. Ensure the cloudflared binary exists
-        await ensureCloudflaredBinary(bin);
+        await ensureCloudflaredBinary(bin, log);
 
         const localTarget = getLocalTarget(serverHost, port);
         debugLog("← Quick tunnel connecting to local target", localTarget);
 
         try {
           const { child: quickChild, url } = await spawnQuickTunnel(localTarget);
-          tunnelUrl = url;
+          setTunnelUrl(url);
           child = quickChild;
           
           // Expose to future plugin instances
@@ -903,8 +2790,24 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
           
           // Register cleanup handlers
           registerExitHandler();
+          void writeDaemonLock();
           
-          console.log(`🌐  Quick tunnel ready at: ${url}`);
+          // Vite's printUrls shows the URL as `Network (tunnel)`, whichever comes first
+          debugLog("← Quick tunnel ready at", url);
+          announceQuickTunnelUrl(server, url);
+          shareTunnelUrl(url);
+
+          // A restarted quick tunnel gets a brand-new random URL
+          let activeLocalTarget = localTarget;
+          restartTunnel = async () => {
+            const { child: restartedChild, url: restartedUrl } = await spawnQuickTunnel(activeLocalTarget);
+            child = restartedChild;
+            globalState.child = child;
+            setTunnelUrl(restartedUrl);
+            void writeDaemonLock();
+            log.info(`🌐  Quick tunnel restarted at: ${restartedUrl}`);
+            shareTunnelUrl(restartedUrl);
+          };
           
           // Handle port conflicts for quick tunnels
           server.httpServer?.on('listening', async () => {
@@ -912,32 +2815,36 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
               const { host: actualServerHost, port: actualPort } = normalizeAddress(server.httpServer?.address());
               
               if (actualPort !== port) {
-                console.log(`[cloudflare-tunnel] ⚠️  Port conflict detected - Vite is using port ${actualPort} instead of ${port}`);
-                console.log(`[cloudflare-tunnel] 🔄 Quick tunnel needs to be restarted for new port...`);
+                log.info(`⚠️  Port conflict detected - Vite is using port ${actualPort} instead of ${port}`);
+                log.info(`🔄 Quick tunnel needs to be restarted for new port...`);
                 
                 // Kill the current quick tunnel
-                killCloudflared('SIGTERM');
+                killCloudflared('SIGTERM', true);
                 
                 // Wait a moment for cleanup
                 await new Promise(resolve => setTimeout(resolve, 1000));
                 
                 // Start a new quick tunnel with the correct port
-                
+                setTunnelStatus("starting");
                 const newLocalTarget = getLocalTarget(actualServerHost, (actualPort ?? port));
+                activeLocalTarget = newLocalTarget;
                 
                 const { child: newChild, url: newUrl } = await spawnQuickTunnel(newLocalTarget);
-                tunnelUrl = newUrl;
+                setTunnelUrl(newUrl);
                 child = newChild;
                 globalState.child = child;
+                globalState.shuttingDown = false;
                 
-                console.log(`🌐  Quick tunnel updated for port ${actualPort}: ${newUrl}`);
+                log.info(`🌐  Quick tunnel updated for port ${actualPort}: ${newUrl}`);
+                shareTunnelUrl(newUrl);
                 
                 // Update the global config hash to reflect the new port
-                const updatedConfigHash = JSON.stringify({ isQuickMode, hostname, port: actualPort, tunnelName, dnsOption, sslOption });
+                const updatedConfigHash = computeConfigHash(actualPort);
                 globalState.configHash = updatedConfigHash;
+                void writeDaemonLock();
               }
             } catch (error) {
-              console.error(`[cloudflare-tunnel] ❌ Failed to update quick tunnel for port change: ${(error as Error).message}`);
+              log.error(`❌ Failed to update quick tunnel for port change: ${(error as Error).message}`);
             }
           });
 
@@ -948,13 +2855,13 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
           
           return; // Exit early for quick mode
         } catch (error) {
-          console.error(`[cloudflare-tunnel] ❌ Quick tunnel setup failed: ${(error as Error).message}`);
+          log.error(`❌ Quick tunnel setup failed: ${(error as Error).message}`);
           throw error;
         }
       }
 
       // Named tunnel mode logic starts here
-      console.log('[cloudflare-tunnel] Starting named tunnel mode...');
+      log.info(`Starting named tunnel mode${dryRun ? ' (dry run)' : ''}...`);
       
       // Resolve API token with fallback priority:
       // 1. Provided apiToken option
@@ -970,34 +2877,85 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
       }
 
       // 'port' already computed above
-      console.log(`[cloudflare-tunnel] Using port ${port}${userProvidedPort === port ? ' (user-provided)' : ' (from Vite config)'}`);
+      log.info(`Using port ${port}${userProvidedPort === port ? ' (user-provided)' : ' (from Vite config)'}`);
 
       // 1. Ensure the cloudflared binary exists
-      await ensureCloudflaredBinary(bin);
+      if (!dryRun) {
+        await ensureCloudflaredBinary(bin, log);
+      }
 
       // 2. Figure out account & zone
       const accounts = await cf(apiToken, "GET", "/accounts", undefined, z.array(AccountSchema));
-      const accountId = forcedAccount || accounts[0]?.id;
-      if (!accountId) throw new Error("Unable to determine Cloudflare account ID");
+      const describeAccounts = (list: Array<{ id: string; name?: string | undefined }>) =>
+        list.map((account) => `${account.name ?? "?"} (${account.id})`).join(", ");
+      let accountId: string | undefined;
+      if (forcedAccount) {
+        accountId = findAccount(accounts, forcedAccount)?.id;
+        // Tokens without account read access can't list accounts, so trust anything that looks like an ID
+        if (!accountId && !/^[0-9a-f]{32}$/i.test(forcedAccount)) {
+          throw new Error(
+            `Account '${forcedAccount}' not found. Accounts available to this token: ${describeAccounts(accounts) || "none"}`
+          );
+        }
+        accountId ??= forcedAccount;
+      }
 
-      const apexDomain = hostname!.split(".").slice(-2).join(".");
-      const parentDomain = hostname!.split(".").slice(1).join(".");
-      debugLog("← Apex domain", apexDomain);
-      debugLog("← Parent domain", parentDomain);
+      // Account-owned tokens only see their own account, so the first one is theirs
+      await verifyApiToken(apiToken, accountId ?? accounts[0]?.id);
+
+      // The zone knows which account it belongs to
       let zoneId: string | undefined = forcedZone;
-      if(!zoneId){
-        let zones: Zone[] = [];
-        try{
-          zones = await cf(apiToken, "GET", `/zones?name=${parentDomain}`, undefined, z.array(ZoneSchema));
-        } catch (error) {
-          debugLog("← Error fetching zone for parent domain", error);
+      if (!zoneId) {
+        const zones = await findZonesForHostname(cf, apiToken, hostname!, accountId).catch(async (error) => {
+          await checkZoneReadAccess(apiToken, hostname!);
+          throw error;
+        });
+        let zone = zones[0]!;
+        if (zones.length > 1) {
+          zone = zones.find((candidate) => candidate.account?.id === accounts[0]?.id) ?? zone;
+          log.warn(
+            `Zone ${zone.name} exists in several accounts: ${describeAccounts(zones.map((candidate) => candidate.account ?? { id: "?" }))}. ` +
+            `Using ${describeAccounts([zone.account ?? { id: "?" }])}; set accountId (ID or name) to choose another`
+          );
         }
-        if(zones.length === 0){
-          zones = await cf(apiToken, "GET", `/zones?name=${apexDomain}`, undefined, z.array(ZoneSchema));
+        zoneId = zone.id;
+        accountId ??= zone.account?.id;
+        debugLog("← Resolved zone", zone.name, zoneId);
+      } else if (!accountId) {
+        const zone = await cf(apiToken, "GET", `/zones/${zoneId}`, undefined, ZoneSchema);
+        accountId = zone.account?.id;
+      }
+      if (!accountId && accounts.length > 1) {
+        log.warn(
+          `Could not tell which account to use; picking ${describeAccounts(accounts.slice(0, 1))}. ` +
+          `Accounts available to this token: ${describeAccounts(accounts)}. Set accountId (ID or name) to choose`
+        );
+      }
+      accountId ??= accounts[0]?.id;
+      if (!accountId) throw new Error("Unable to determine Cloudflare account ID");
+      debugLog("← Using account", accountId);
+
+      // Ingress hostnames may belong to other zones of the account
+      const zoneIdsByName = new Map<string, Promise<string>>([[hostname!, Promise.resolve(zoneId)]]);
+      const zoneIdFor = (host: string): Promise<string> => {
+        const name = host.replace(/^\*\./, "");
+        let id = zoneIdsByName.get(name);
+        if (!id) {
+          id = findZonesForHostname(cf, apiToken, name, accountId).then((zones) => zones[0]!.id);
+          zoneIdsByName.set(name, id);
         }
-        zoneId = zones[0]?.id;
+        return id;
+      };
+      const tunnelHosts = [...new Set([...allHostnames, ...(dnsOption ? [dnsOption] : [])])];
+      const zoneHosts = new Map<string, string[]>();
+      for (const [host, hostZoneId] of await Promise.all(tunnelHosts.map(async (host) => [host, await zoneIdFor(host)] as const))) {
+        zoneHosts.set(hostZoneId, [...(zoneHosts.get(hostZoneId) ?? []), host]);
       }
-      if (!zoneId) throw new Error(`Zone ${apexDomain} not found in account ${accountId}`);
+      const tunnelZoneIds = [...zoneHosts.keys()];
+      debugLog("← Zones of tunnel hostnames", Object.fromEntries(zoneHosts));
+
+      // 2.5. Check the token can reach everything below before changing anything
+      await preflightApiToken(apiToken, accountId, zoneHosts);
 
       // Extract cleanup configuration for later use
       const {
@@ -1007,68 +2965,99 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
       // 3. Get or create the tunnel
       const tunnels = await cf(apiToken, "GET", `/accounts/${accountId}/cfd_tunnel?name=${tunnelName}`, undefined, z.array(TunnelSchema));
       let tunnel = tunnels[0];
+      // Locally-managed tunnels need the secret for their credentials file
+      let tunnelSecret: string | undefined;
 
       if (!tunnel) {
-        console.log(`[cloudflare-tunnel] Creating tunnel '${tunnelName}'...`);
+        log.info(`Creating tunnel '${tunnelName}'...`);
+        if (configSource === "local") tunnelSecret = randomBytes(32).toString("base64");
         tunnel = await cf(apiToken, "POST", `/accounts/${accountId}/cfd_tunnel`, {
           name: tunnelName,
-          config_src: "cloudflare",
+          config_src: configSource,
+          ...(tunnelSecret ? { tunnel_secret: tunnelSecret } : {}),
         }, TunnelSchema);
+        if (branchPreviewOption) await updateBranchLedger((names) => names.add(tunnelName));
+      } else if (configSource === "local" && tunnel.remote_config) {
+        log.warn(
+          `Tunnel '${tunnelName}' is remotely managed; cloudflared will prefer its dashboard ingress over ${localConfigFile}. ` +
+          `Use a different tunnelName or delete the tunnel to switch it to configSource: 'local'`
+        );
       }
       const tunnelId = tunnel.id as string;
+      dashboardUrl = `https://one.dash.cloudflare.com/${accountId}/networks/tunnels/cfd_tunnel/${tunnelId}/edit`;
       // 3.5. Cleanup mismatched resources from current tunnel if configured
       if (autoCleanup) {
-        console.log(`[cloudflare-tunnel] 🧹 Running resource cleanup for tunnel '${tunnelName}'...`);
+        log.info(`🧹 Running resource cleanup for tunnel '${tunnelName}'...`);
         
         // Cleanup DNS records that don't match current configuration
-        const dnsCleanup = await cleanupMismatchedDnsRecords(apiToken, zoneId, generateDnsComment(), hostname!, tunnelId);
-        if (dnsCleanup.found.length > 0) {
-          console.log(`[cloudflare-tunnel] 📊 DNS cleanup: ${dnsCleanup.found.length} mismatched, ${dnsCleanup.deleted.length} deleted`);
+        let dnsFound = 0;
+        let dnsDeleted = 0;
+        for (const tunnelZoneId of tunnelZoneIds) {
+          const dnsCleanup = await cleanupMismatchedDnsRecords(apiToken, tunnelZoneId, generateDnsComment(), allHostnames, tunnelId);
+          dnsFound += dnsCleanup.found.length;
+          dnsDeleted += dnsCleanup.deleted.length;
+        }
+        if (dnsFound > 0) {
+          log.info(`📊 DNS cleanup: ${dnsFound} mismatched, ${dnsDeleted} deleted`);
         }
         
         // Check for mismatched SSL certificates
-        const mismatchedSslCerts = await findMismatchedSslCertificates(apiToken, zoneId, tunnelName, hostname!);
-        if (mismatchedSslCerts.length > 0) {
+        let sslDeleted = 0;
+        for (const tunnelZoneId of tunnelZoneIds) {
+          const mismatchedSslCerts = await findMismatchedSslCertificates(apiToken, tunnelZoneId, tunnelName, allHostnames);
           // Delete the mismatched SSL certificates
           for (const cert of mismatchedSslCerts) {
-            await cf(apiToken, "DELETE", `/zones/${zoneId}/ssl/certificate_packs/${cert.id}`);
+            await cf(apiToken, "DELETE", `/zones/${tunnelZoneId}/ssl/certificate_packs/${cert.id}`);
           }
-          console.log(`[cloudflare-tunnel] 📊 SSL cleanup: ${mismatchedSslCerts.length} deleted`);
+          sslDeleted += mismatchedSslCerts.length;
+        }
+        if (sslDeleted > 0) {
+          log.info(`📊 SSL cleanup: ${sslDeleted} deleted`);
         }
       } else {
         debugLog("← Cleanup skipped", cleanupConfig);
       }
 
+      // 3.6. Tear down other branches' preview tunnels (never blocks startup)
+      if (autoCleanup && branchPreviewOption && branchPreviewOption.cleanupStale !== false) {
+        try {
+          await cleanupStaleBranchTunnels(apiToken, accountId, zoneId);
+        } catch (error) {
+          log.warn(`Stale branch tunnel cleanup failed: ${(error as Error).message}`);
+        }
+      }
+
       const localTarget = getLocalTarget(serverHost, port);
       debugLog("← Connecting to local target", localTarget);
-      // 4. Push ingress rules (public hostname → localhost)
-      await cf(apiToken, "PUT", `/accounts/${accountId}/cfd_tunnel/${tunnelId}/configurations`, {
-        config: {
-          ingress: [
-            { hostname: hostname!, service: localTarget },
-            { service: "http_status:404" },
-          ],
-        },
-      });
+      // 4. Push ingress rules (public hostnames → localhost); local config is written in step 7
+      if (configSource === "cloudflare") {
+        await cf(apiToken, "PUT", `/accounts/${accountId}/cfd_tunnel/${tunnelId}/configurations`, {
+          config: {
+            ingress: buildIngressRules(localTarget),
+          },
+        }, TunnelConfigurationSchema);
+      }
 
       // 5. DNS management
 
       // Helper to generate a special "tag" hostname for SSL certificates
       // Since SSL certs don't support metadata, we add a special hostname as a tag
-      const generateSslTagHostname = () => {
+      const generateSslTagHostname = (host: string = hostname!) => {
         // we can't use .parentDomain because it's a wildcard domain and that causes an error
-        return `cf-tunnel-plugin-${tunnelName}--${parentDomain}`;
+        return `${SSL_TAG_PREFIX}${tunnelName}--${parentDomainOf(host)}`;
       };
       
-      if (dnsOption) {
+      const dnsRecordName = dnsOption;
+      if (dnsRecordName) {
         // Ensure wildcard CNAME record exists
         const ensureDnsRecord = async (type: "CNAME", content: string) => {
-          const existingWildcard = await cf(apiToken, "GET", `/zones/${zoneId}/dns_records?type=${type}&name=${encodeURIComponent(dnsOption)}`, undefined, z.array(DNSRecordSchema));
+          const dnsZoneId = await zoneIdFor(dnsRecordName);
+          const existingWildcard = await cf(apiToken, "GET", `/zones/${dnsZoneId}/dns_records?type=${type}&name=${encodeURIComponent(dnsRecordName)}`, undefined, z.array(DNSRecordSchema));
           if (existingWildcard.length === 0) {
-            console.log(`[cloudflare-tunnel] Creating ${type} record for ${dnsOption}...`);
-            await cf(apiToken, "POST", `/zones/${zoneId}/dns_records`, {
+            log.info(`Creating ${type} record for ${dnsRecordName}...`);
+            await cf(apiToken, "POST", `/zones/${dnsZoneId}/dns_records`, {
               type,
-              name: dnsOption,
+              name: dnsRecordName,
               content,
               proxied: true,
               comment: generateDnsComment(),
@@ -1077,60 +3066,74 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
         };
 
         await ensureDnsRecord("CNAME", `${tunnelId}.cfargotunnel.com`);
-      } else {
-        const wildcardDns = `*.${parentDomain}`;
+      }
+
+      // Hostnames not already covered by the `dns` option need their own record
+      const uncoveredHostnames = allHostnames.filter((host) => !dnsOption || !hostMatches(dnsOption, host));
+      for (const host of uncoveredHostnames) {
+        const hostZoneId = await zoneIdFor(host);
+        const wildcardDns = `*.${parentDomainOf(host)}`;
         // check if there is an existing wildcard dns record for the parent domain
-        const existingWildcard = await cf(apiToken, "GET", `/zones/${zoneId}/dns_records?type=CNAME&name=${wildcardDns}`, undefined, z.array(DNSRecordSchema));
-        if (existingWildcard.length === 0) {
-
-          // Fallback: Ensure CNAME for specific hostname
-          const existingDnsRecords = await cf(apiToken, "GET", `/zones/${zoneId}/dns_records?type=CNAME&name=${hostname!}`, undefined, z.array(DNSRecordSchema));
-          const existing = existingDnsRecords.length > 0;
-
-          if (!existing) {
-            console.log(`[cloudflare-tunnel] Creating DNS record for ${hostname}...`);
-            await cf(apiToken, "POST", `/zones/${zoneId}/dns_records`, {
-              type: "CNAME",
-              name: hostname!,
-              content: `${tunnelId}.cfargotunnel.com`,
-              proxied: true,
-              comment: generateDnsComment(),
-            }, DNSRecordSchema);
-          }
+        const existingWildcard = await cf(apiToken, "GET", `/zones/${hostZoneId}/dns_records?type=CNAME&name=${wildcardDns}`, undefined, z.array(DNSRecordSchema));
+        if (existingWildcard.length > 0) continue;
+
+        // Fallback: Ensure CNAME for specific hostname
+        const existingDnsRecords = await cf(apiToken, "GET", `/zones/${hostZoneId}/dns_records?type=CNAME&name=${host}`, undefined, z.array(DNSRecordSchema));
+        const existing = existingDnsRecords.length > 0;
+
+        if (!existing) {
+          log.info(`Creating DNS record for ${host}...`);
+          await cf(apiToken, "POST", `/zones/${hostZoneId}/dns_records`, {
+            type: "CNAME",
+            name: host,
+            content: `${tunnelId}.cfargotunnel.com`,
+            proxied: true,
+            comment: generateDnsComment(),
+          }, DNSRecordSchema);
         }
       }
 
-      // 6. Grab the tunnel token (single JWT string)
-      const token = await cf(apiToken, "GET", `/accounts/${accountId}/cfd_tunnel/${tunnelId}/token`, undefined, z.string());
+      // 5.5. Cloudflare Access protection (fails closed: never expose an unprotected hostname)
+      await syncAccessApplications(apiToken, accountId, generateDnsComment(), autoCleanup);
+      if (accessOption) {
+        log.info(`🔐 Cloudflare Access protecting ${allHostnames.join(', ')}`);
+      }
 
-      // 7. SSL management
+      // 6. SSL management
       try {
-        // Use the newer certificate packs endpoint (edge_certificates is deprecated)
-        const certListRaw: any = await cf(apiToken, "GET", `/zones/${zoneId}/ssl/certificate_packs?status=all`, undefined, z.any());
-        const certPacks: any[] = Array.isArray(certListRaw) ? certListRaw : (certListRaw.result || []);
-
-        const certContainingHost = (host: string) => certPacks.filter((c) => (c.hostnames || c.hosts || []).includes(host))?.[0];          
+        // Use the newer certificate packs endpoint (edge_certificates is deprecated), once per zone
+        const certPacksByZone = new Map<string, Promise<CertificatePack[]>>();
+        const certContainingHost = async (host: string, zoneHost = host) => {
+          const hostZoneId = await zoneIdFor(zoneHost);
+          let certPacks = certPacksByZone.get(hostZoneId);
+          if (!certPacks) {
+            certPacks = cf(apiToken, "GET", `/zones/${hostZoneId}/ssl/certificate_packs?status=all`, undefined, z.array(CertificatePackSchema));
+            certPacksByZone.set(hostZoneId, certPacks);
+          }
+          return (await certPacks).find((cert) => cert.hosts.includes(host));
+        };
         if (sslOption) {
           const isWildcard = sslOption.startsWith('*.');
           const certNeededHost = sslOption;
 
-          const matchingCert = certContainingHost(certNeededHost);
+          const matchingCert = await certContainingHost(certNeededHost);
           
           if (!matchingCert) {
-            console.log(`[cloudflare-tunnel] Requesting ${isWildcard ? 'wildcard ' : ''}certificate for ${certNeededHost}...`);
+            log.info(`Requesting ${isWildcard ? 'wildcard ' : ''}certificate for ${certNeededHost}...`);
             const tagHostname = generateSslTagHostname();
             const certificateHosts = [certNeededHost, tagHostname];
             debugLog(`Adding tag hostname to certificate: ${tagHostname}`);
             
-            const newCert: any = await retryWithBackoff(() =>
-              cf(apiToken, "POST", `/zones/${zoneId}/ssl/certificate_packs/order`, {
+            const sslZoneId = await zoneIdFor(certNeededHost);
+            const newCert = await retryWithBackoff(() =>
+              cf(apiToken, "POST", `/zones/${sslZoneId}/ssl/certificate_packs/order`, {
                 hosts: certificateHosts,
                 "certificate_authority": "lets_encrypt",
                 "type": "advanced",
                 "validation_method": isWildcard ? "txt" : "http",
                 "validity_days": 90,
                 cloudflare_branding: false
-              })
+              }, CertificatePackSchema)
             );
             
             // Track the newly created certificate
@@ -1141,28 +3144,39 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
             debugLog("← Edge certificate already exists", matchingCert);
           }
         } else {
-          const wildcardDomain = `*.${parentDomain}`;
-          const wildcardExists = certContainingHost(wildcardDomain);
-          if (!wildcardExists) {
+          // Total TLS status is zone-wide, so fetch it at most once per zone
+          const totalTlsByZone = new Map<string, TotalTls>();
+          for (const host of allHostnames) {
+            const wildcardDomain = `*.${parentDomainOf(host)}`;
+            const wildcardExists = await certContainingHost(wildcardDomain, host);
+            if (wildcardExists) {
+              debugLog("← Edge certificate (wildcard) already exists", wildcardExists, wildcardDomain);
+              continue;
+            }
             // Fetch Total TLS status from the new ACM endpoint
-            const totalTls = await cf(apiToken, "GET", `/zones/${zoneId}/acm/total_tls`, undefined, z.object({ status: z.string() }));
+            const hostZoneId = await zoneIdFor(host);
+            let totalTls = totalTlsByZone.get(hostZoneId);
+            if (!totalTls) {
+              totalTls = await cf(apiToken, "GET", `/zones/${hostZoneId}/acm/total_tls`, undefined, TotalTlsSchema);
+              totalTlsByZone.set(hostZoneId, totalTls);
+            }
             debugLog("← Total TLS", totalTls);
-            const existingHostnameCert = certContainingHost(hostname!);
-            if (totalTls.status !== "on" && !existingHostnameCert) {
-              console.log(`[cloudflare-tunnel] Requesting edge certificate for ${hostname}...`);
-              const tagHostname = generateSslTagHostname();
-              const certificateHosts = [hostname!, tagHostname];
+            const existingHostnameCert = await certContainingHost(host);
+            if (!totalTls.enabled && !existingHostnameCert) {
+              log.info(`Requesting edge certificate for ${host}...`);
+              const tagHostname = generateSslTagHostname(host);
+              const certificateHosts = [host, tagHostname];
               debugLog(`Adding tag hostname to certificate: ${tagHostname}`);
               
-              const newCert: any = await retryWithBackoff(() =>
-                cf(apiToken, "POST", `/zones/${zoneId}/ssl/certificate_packs/order`, {
+              const newCert = await retryWithBackoff(() =>
+                cf(apiToken, "POST", `/zones/${hostZoneId}/ssl/certificate_packs/order`, {
                   hosts: certificateHosts,
                   "certificate_authority": "lets_encrypt",
                   "type": "advanced",
                   "validation_method": "txt",
                   "validity_days": 90,
                   cloudflare_branding: false
-                })
+                }, CertificatePackSchema)
               );
               
               // Track the newly created certificate
@@ -1172,117 +3186,116 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
             } else {
               debugLog("← Edge certificate already exists", existingHostnameCert);
             }
-          } else {
-            debugLog("← Edge certificate (wildcard) already exists", wildcardExists, wildcardDomain);
           }
         }
       } catch (sslError) {
-        console.error(`[cloudflare-tunnel] ⚠️  SSL management error: ${(sslError as Error).message}`);
+        log.warn(`⚠️  SSL management error: ${(sslError as Error).message}`);
         throw sslError;
       }
 
-      // 7. Fire up cloudflared
-      const cloudflaredArgs = ["tunnel"];
-      
-      // Add logging options (these go before the 'run' subcommand)
-      cloudflaredArgs.push("--loglevel", effectiveLogLevel);
-      if (logFile) {
-        cloudflaredArgs.push("--logfile", logFile);
+      // Dry run ends here: nothing below may touch Cloudflare or spawn cloudflared
+      if (dryRun) {
+        printPlannedChanges();
+        setTunnelStatus("disabled");
+        return;
       }
-      
 
-      // Log *then* add the token so token is not logged
-      debugLog("Spawning cloudflared", bin, cloudflaredArgs);
-      // Add the run subcommand and token
-      cloudflaredArgs.push("run", "--token", token);
-      child = spawn(
-        bin,
-        cloudflaredArgs,
-        {
-          stdio: ["ignore", "pipe", "pipe"],
-          // Keep child in same process group (default behavior)
-          detached: false,
-          // Prevent an extra console window on Windows and ensure compatibility
-          windowsHide: true,
-          // Use the system shell on Windows to properly locate .exe if needed
-          shell: process.platform === 'win32',
-        }
-      );
-      console.log(`[cloudflare-tunnel] Process spawned with PID: ${child.pid}`);
+      // 7. Grab the tunnel token (single JWT string), or write config.yml and
+      // the credentials file of a locally-managed tunnel
+      const credentialsFile = configSource === "local"
+        ? await ensureTunnelCredentials(apiToken, accountId, tunnelId, tunnelSecret)
+        : undefined;
+      if (credentialsFile) {
+        await writeLocalTunnelConfig(tunnelId, localTarget);
+        log.info(`📄 Using local tunnel config ${localConfigFile}`);
+      }
+      const fetchTunnelToken = () => credentialsFile
+        ? Promise.resolve(undefined)
+        : cf(apiToken, "GET", `/accounts/${accountId}/cfd_tunnel/${tunnelId}/token`, undefined, z.string());
+      const token = await fetchTunnelToken();
 
-      // Expose to future plugin instances
-      globalState.child = child;
-      globalState.configHash = newConfigHash;
+      // 8. Fire up cloudflared
+      const spawnNamedTunnel = async (tunnelToken: string | undefined) => {
+        const cloudflaredArgs = ["tunnel"];
+      
+        // Add logging options (these go before the 'run' subcommand)
+        cloudflaredArgs.push("--loglevel", cloudflaredLogLevel);
+        if (logFile) {
+          cloudflaredArgs.push("--logfile", logFile);
+        }
       
-      // Register cleanup handlers now that we have a child process
-      registerExitHandler();
 
-      // Wait for tunnel to establish connection
-      let tunnelReady = false;
-      child.stdout?.on("data", (data) => {
-        const output = data.toString();
-        if (!globalState.shuttingDown || debug) {
-          console.log(`[cloudflared stdout] ${output.trim()}`);
+        // Local metrics server for readiness and health polling
+        const metricsAddress = `127.0.0.1:${await getFreePort()}`;
+        cloudflaredArgs.push("--metrics", metricsAddress);
+        if (credentialsFile) {
+          cloudflaredArgs.push("--config", localConfigFile!);
         }
-        if (output.includes("Connection") && output.includes("registered")) {
-          if (!tunnelReady) {
-            tunnelReady = true;
-            console.log(`🌐  Cloudflare tunnel started for https://${hostname}`);
+
+        // Log *then* add the token so token is not logged
+        debugLog("Spawning cloudflared", bin, cloudflaredArgs);
+        // Add the run subcommand and token (or the locally-managed tunnel's credentials)
+        cloudflaredArgs.push(
+          "run",
+          ...(tunnelToken ? ["--token", tunnelToken] : ["--credentials-file", credentialsFile!, tunnelId])
+        );
+        const proc = spawnCloudflared(cloudflaredArgs);
+        log.info(`Process spawned with PID: ${proc.pid}`);
+        child = proc;
+
+        // Expose to future plugin instances
+        globalState.child = child;
+
+        // Wait for tunnel to establish connection
+        let tunnelReady = false;
+        attachLifecycleHooks(proc, () => tunnelUrl, () => {
+          tunnelReady = true;
+          log.info(`🌐  Cloudflare tunnel started for https://${hostname}`);
+          shareTunnelUrl(tunnelUrl);
+        }, metricsAddress);
+        proc.stdout?.on("data", (data) => logCloudflaredOutput(data));
+        proc.stderr?.on("data", (data) => logCloudflaredOutput(data));
+
+        proc.on("error", (error) => {
+          log.error(`❌ Failed to start tunnel process: ${error.message}`);
+          if (error.message.includes('ENOENT')) {
+            log.error(`Hint: cloudflared binary may not be installed correctly`);
           }
-        }
-      });
+        });
 
-      child.stderr?.on("data", (data) => {
-        const error = data.toString().trim();
-        
-        // Filter out noisy ICMP errors that don't affect functionality
-        if (error.includes('Failed to parse ICMP reply') || 
-            error.includes('unknow ip version 0')) {
-          // Only log ICMP errors in debug mode
-          if (logLevel === 'debug') {
-            console.log(`[cloudflared debug] ${error}`);
+        proc.on("exit", (code, signal) => {
+          if (code !== 0 && code !== null) {
+            log.error(`❌ Tunnel process exited with code ${code}`);
+            if (signal) {
+              log.error(`Process terminated by signal: ${signal}`);
+            }
+          } else if (code === 0) {
+            log.info(`✅ Tunnel process exited cleanly`);
           }
-          return;
-        }
-        
-        if (!globalState.shuttingDown || debug) {
-          console.error(`[cloudflared stderr] ${error}`);
-        }
-        
-        // Highlight actual errors and failures, but respect shutdown flag
-        if (error.toLowerCase().includes('error') || 
-            error.toLowerCase().includes('failed') ||
-            error.toLowerCase().includes('fatal')) {
-          if (!globalState.shuttingDown || debug) {
-            console.error(`[cloudflare-tunnel] ⚠️  ${error}`);
+        });
+
+        // Fallback banner if we don't detect connection within reasonable time
+        setTimeout(() => {
+          if (!tunnelReady) {
+            log.info(`🌐  Cloudflare tunnel starting for https://${hostname}`);
           }
-        }
-      });
+        }, 3000);
 
-      child.on("error", (error) => {
-        console.error(`[cloudflare-tunnel] ❌ Failed to start tunnel process: ${error.message}`);
-        if (error.message.includes('ENOENT')) {
-          console.error(`[cloudflare-tunnel] Hint: cloudflared binary may not be installed correctly`);
-        }
-      });
+        return proc;
+      };
 
-      child.on("exit", (code, signal) => {
-        if (code !== 0 && code !== null) {
-          console.error(`[cloudflare-tunnel] ❌ Tunnel process exited with code ${code}`);
-          if (signal) {
-            console.error(`[cloudflare-tunnel] Process terminated by signal: ${signal}`);
-          }
-        } else if (code === 0) {
-          console.log(`[cloudflare-tunnel] ✅ Tunnel process exited cleanly`);
-        }
-      });
+      await spawnNamedTunnel(token);
+      globalState.configHash = newConfigHash;
+      void writeDaemonLock();
 
-      // Fallback banner if we don't detect connection within reasonable time
-      setTimeout(() => {
-        if (!tunnelReady) {
-          console.log(`🌐  Cloudflare tunnel starting for https://${hostname}`);
-        }
-      }, 3000);
+      // Register cleanup handlers now that we have a child process
+      registerExitHandler();
+
+      // Restarts need a fresh token since the previous one may have been rotated
+      restartTunnel = async () => {
+        await spawnNamedTunnel(await fetchTunnelToken());
+        void writeDaemonLock();
+      };
 
       // Stop the tunnel when Vite shuts down
       server.httpServer?.once("close", () => {
@@ -1295,8 +3308,8 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
           const { host: actualServerHost, port: actualPort } = normalizeAddress(server.httpServer?.address());
           
           if (actualPort !== port) {
-            console.log(`[cloudflare-tunnel] ⚠️  Port conflict detected - Vite is using port ${actualPort} instead of ${port}`);
-            console.log(`[cloudflare-tunnel] 🔄 Updating tunnel configuration...`);
+            log.info(`⚠️  Port conflict detected - Vite is using port ${actualPort} instead of ${port}`);
+            log.info(`🔄 Updating tunnel configuration...`);
             
             // Update the tunnel configuration with the new port
             
@@ -1305,37 +3318,45 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
             debugLog("← Updating local target to", newLocalTarget);
             
             // Update ingress rules with the correct port
-            await cf(apiToken, "PUT", `/accounts/${accountId}/cfd_tunnel/${tunnelId}/configurations`, {
-              config: {
-                ingress: [
-                  { hostname: hostname!, service: newLocalTarget },
-                  { service: "http_status:404" },
-                ],
-              },
-            });
+            if (credentialsFile) {
+              // cloudflared only reads config.yml on start
+              await writeLocalTunnelConfig(tunnelId, newLocalTarget);
+              if (child) {
+                await stopTunnel();
+                await startTunnelAgain();
+              }
+            } else {
+              await cf(apiToken, "PUT", `/accounts/${accountId}/cfd_tunnel/${tunnelId}/configurations`, {
+                config: {
+                  ingress: buildIngressRules(newLocalTarget),
+                },
+              }, TunnelConfigurationSchema);
+            }
             
-            console.log(`[cloudflare-tunnel] ✅ Tunnel configuration updated to use port ${actualPort}`);
+            log.info(`✅ Tunnel configuration updated to use port ${actualPort}`);
             
             // Update the global config hash to reflect the new port
-            const updatedConfigHash = JSON.stringify({ hostname, port: actualPort, tunnelName, dnsOption, sslOption });
+            const updatedConfigHash = computeConfigHash(actualPort);
             globalState.configHash = updatedConfigHash;
+            void writeDaemonLock();
           }
         } catch (error) {
-          console.error(`[cloudflare-tunnel] ❌ Failed to update tunnel for port change: ${(error as Error).message}`);
+          log.error(`❌ Failed to update tunnel for port change: ${(error as Error).message}`);
         }
       });
 
     } catch (error: any) {
-      console.error(`[cloudflare-tunnel] ❌ Setup failed: ${error.message}`);
+      setTunnelStatus("down");
+      log.error(`❌ Setup failed: ${error.message}`);
       
       // Provide helpful error context
       if (error.message.includes('API token')) {
-        console.error(`[cloudflare-tunnel] 💡 Check your API token at: https://dash.cloudflare.com/profile/api-tokens`);
-        console.error(`[cloudflare-tunnel] 💡 Required permissions: Zone:Zone:Read, Zone:DNS:Edit, Account:Cloudflare Tunnel:Edit`);
+        log.error(`💡 Check your API token at: https://dash.cloudflare.com/profile/api-tokens`);
+        log.error(`💡 Required permissions: Zone:Zone:Read, Zone:DNS:Edit, Account:Cloudflare Tunnel:Edit`);
       } else if (error.message.includes('Zone') && error.message.includes('not found')) {
-        console.error(`[cloudflare-tunnel] 💡 Make sure '${hostname}' domain is added to your Cloudflare account`);
+        log.error(`💡 Make sure '${hostname}' domain is added to your Cloudflare account`);
       } else if (error.message.includes('cloudflared')) {
-        console.error(`[cloudflare-tunnel] 💡 Try deleting node_modules and reinstalling to get a fresh cloudflared binary`);
+        log.error(`💡 Try deleting node_modules and reinstalling to get a fresh cloudflared binary`);
       }
       
       throw error;
@@ -1350,6 +3371,7 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
     config(config) {
       // Load environment variables from .env files
       dotEnvConfig();
+      resolveNames(path.resolve(config.root ?? process.cwd()));
   
       
       // Automatically configure Vite to allow tunnel hostname for named mode
@@ -1357,21 +3379,36 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
         config.server = {};
       }
       
+      // `preview.allowedHosts` falls back to `server.allowedHosts`, so only an
+      // explicit preview list needs the tunnel hosts added as well
+      const previewAllowedHosts = Array.isArray(config.preview?.allowedHosts) ? config.preview.allowedHosts : undefined;
+
       // Skip hostname configuration for quick mode
       if (isQuickMode) {
         config.server.allowedHosts = [".trycloudflare.com"];
+        if (previewAllowedHosts && !previewAllowedHosts.includes(".trycloudflare.com")) {
+          previewAllowedHosts.push(".trycloudflare.com");
+        }
         
         return;
       }
+
+      for (const host of allHostnames) {
+        if (previewAllowedHosts && !previewAllowedHosts.includes(host)) {
+          previewAllowedHosts.push(host);
+        }
+      }
       
-      // Allow requests from the tunnel hostname for development
+      // Allow requests from the tunnel hostnames for development
       if (!config.server.allowedHosts) {
-        config.server.allowedHosts = [hostname!];
-        console.log(`[cloudflare-tunnel] Configured Vite to allow requests from ${hostname}`);
+        config.server.allowedHosts = [...allHostnames];
+        log.info(`Configured Vite to allow requests from ${allHostnames.join(', ')}`);
       } else if (Array.isArray(config.server.allowedHosts)) {
-        if (!config.server.allowedHosts.includes(hostname!)) {
-          config.server.allowedHosts.push(hostname!);
-          console.log(`[cloudflare-tunnel] Added ${hostname} to allowed hosts`);
+        for (const host of allHostnames) {
+          if (!config.server.allowedHosts.includes(host)) {
+            config.server.allowedHosts.push(host);
+            log.info(`Added ${host} to allowed hosts`);
+          }
         }
       }
       // return {
@@ -1387,32 +3424,93 @@ function cloudflareTunnel(options: CloudflareTunnelOptions = {}): Plugin {
       // }
     },
 
+    configResolved(config) {
+      if (loggerOption === "vite") {
+        logSink = config.logger;
+      }
+    },
+
     configureServer(server) {
+      devServer = server;
+      // Late-loading clients ask for the current state instead of trusting the bundled value
+      server.ws.on(TUNNEL_STATE_REQUEST_EVENT, (_data, client) => {
+        client.send(TUNNEL_STATE_EVENT, currentTunnelState());
+      });
+
+      // Registered in the pre hook so they run before Vite's own middlewares
+      installMiddlewares(server);
+      wrapPrintUrls(server);
+      addCLIShortcuts(server);
+
       // start the tunnel process but don't block on it in the pre hook
       const configuredPromise = configureServer(server);
       globalState.tunnelUrl = configuredPromise.then(() => tunnelUrl).catch(() => "");
       return async () => {
         // now in the post hook, wait for the tunnel process to start
         await configuredPromise;
+        if (tunnelStatus !== "disabled") printOneTimeLink();
       };
     },
 
+    transformIndexHtml: {
+      // 'pre' so Vite still resolves the bare virtual import in the injected inline script
+      order: "pre",
+      handler() {
+        // Only the dev server pushes state over HMR; builds and preview stay untouched
+        if (!overlayEnabled || !devServer) return;
+        return [{
+          tag: "script",
+          attrs: { type: "module" },
+          children: `import ${JSON.stringify(OVERLAY_MODULE_ID)};`,
+          injectTo: "body",
+        }];
+      },
+    },
+
     resolveId(id) {
-      if (id === VIRTUAL_MODULE_ID) {
-        return '\0' + VIRTUAL_MODULE_ID;
+      if (id === VIRTUAL_MODULE_ID || id === OVERLAY_MODULE_ID) {
+        return '\0' + id;
       }
       return;
     },
 
     async load(id) {
-      const tunnelUrl = await globalState.tunnelUrl;
       if (id === '\0' + VIRTUAL_MODULE_ID) {
-        return `export function getTunnelUrl() { return ${JSON.stringify(tunnelUrl)}; }`;
+        const currentUrl = await globalState.tunnelUrl;
+        return generateVirtualModule(currentUrl ?? tunnelUrl, tunnelStatus, tunnelMetrics);
+      }
+      if (id === '\0' + OVERLAY_MODULE_ID) {
+        return generateOverlayModule();
       }
       return;
     },
 
+    configurePreviewServer(server) {
+      if (devServer) {
+        log.warn("⚠️  This plugin instance already runs the dev server tunnel; skipping the preview tunnel");
+        return;
+      }
+      sessionKind = 'preview';
+      globalState = globalSessions.preview ??= { tunnelUrl: undefined };
+      child = globalState.child;
+      tunnelStatus = globalState.tunnelStatus ?? 'starting';
+
+      installMiddlewares(server);
+      wrapPrintUrls(server);
+      addCLIShortcuts(server);
+
+      const configuredPromise = configureServer(server);
+      globalState.tunnelUrl = configuredPromise.then(() => tunnelUrl).catch(() => "");
+      return async () => {
+        await configuredPromise;
+        if (tunnelStatus !== "disabled") printOneTimeLink();
+      };
+    },
+
     closeBundle() {
+      // Builds run this hook too; only a dev server's tunnel is torn down here
+      // (preview tunnels stop when the preview HTTP server closes)
+      if (!devServer) return;
       killCloudflared('SIGTERM');
       delete globalState.child;
       delete globalState.configHash;
@@ -1439,15 +3537,675 @@ function normalizeAddress(address: string | { address?: string; port?: number }
   return { host: 'localhost' };
 }
 
+/**
+ * Self-contained HTML page of the request inspector. It polls the JSON
+ * endpoints next to it, so no assets need to be served.
+ */
+function renderInspectorPage(): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Tunnel request inspector</title>
+<style>
+  body { margin: 0; font: 13px/1.4 system-ui, sans-serif; display: grid; grid-template: auto 1fr / minmax(320px, 40%) 1fr; height: 100vh; }
+  header { grid-column: 1 / 3; display: flex; gap: 8px; align-items: center; padding: 8px 12px; border-bottom: 1px solid #ddd; }
+  header h1 { font-size: 15px; margin: 0 auto 0 0; }
+  #list { overflow: auto; border-right: 1px solid #ddd; margin: 0; padding: 0; list-style: none; }
+  #list li { padding: 6px 12px; border-bottom: 1px solid #eee; cursor: pointer; display: flex; gap: 8px; }
+  #list li.selected { background: #eef4ff; }
+  #list .url { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; font-family: monospace; }
+  .status-ok { color: #1a7f37; } .status-error { color: #cf222e; } .muted { color: #888; }
+  #detail { overflow: auto; padding: 12px; }
+  pre { background: #f6f8fa; padding: 8px; overflow: auto; white-space: pre-wrap; word-break: break-all; }
+</style>
+</head>
+<body>
+<header>
+  <h1>🔎 Tunnel request inspector</h1>
+  <button id="replay" disabled>Replay</button>
+  <button id="clear">Clear</button>
+</header>
+<ul id="list"></ul>
+<section id="detail"><p class="muted">Requests arriving through the tunnel show up here.</p></section>
+<script>
+  const base = ${JSON.stringify(INSPECT_PATH)};
+  let requests = [];
+  let selectedId;
+
+  const el = (tag, props = {}, ...children) => {
+    const node = Object.assign(document.createElement(tag), props);
+    node.append(...children);
+    return node;
+  };
+  const statusClass = (status) => status === undefined ? "muted" : status < 400 ? "status-ok" : "status-error";
+
+  function renderList() {
+    document.getElementById("list").replaceChildren(...requests.map((request) => {
+      const item = el("li", { className: request.id === selectedId ? "selected" : "" },
+        el("strong", {}, request.method),
+        el("span", { className: "url" }, request.url),
+        el("span", { className: statusClass(request.status) }, String(request.status ?? "–")),
+        el("span", { className: "muted" }, request.durationMs === undefined ? "" : request.durationMs + " ms"));
+      item.onclick = () => { selectedId = request.id; renderList(); renderDetail(); };
+      return item;
+    }));
+  }
+
+  function renderDetail() {
+    const request = requests.find((entry) => entry.id === selectedId);
+    document.getElementById("replay").disabled = !request;
+    if (!request) return;
+    const body = request.bodyEncoding === "utf8" ? request.body : "(base64) " + request.body;
+    document.getElementById("detail").replaceChildren(
+      el("h2", {}, request.method + " " + request.url),
+      el("p", { className: "muted" }, new Date(request.time).toLocaleString() +
+        (request.replayOf ? " · replay of " + request.replayOf : "") +
+        " · status " + (request.status ?? "none") + (request.durationMs === undefined ? "" : " · " + request.durationMs + " ms")),
+      el("h3", {}, "Headers"),
+      el("pre", {}, Object.entries(request.headers).map(([name, value]) => name + ": " + value).join("\\n")),
+      el("h3", {}, "Body" + (request.bodyTruncated ? " (truncated)" : "")),
+      el("pre", {}, body || "(empty)"));
+  }
+
+  async function refresh() {
+    requests = await fetch(base + "/requests").then((response) => response.json());
+    renderList();
+    renderDetail();
+  }
+
+  document.getElementById("replay").onclick = async () => {
+    const result = await fetch(base + "/requests/" + encodeURIComponent(selectedId) + "/replay", { method: "POST" }).then((response) => response.json());
+    if (result.error) alert("Replay failed: " + result.error);
+    await refresh();
+  };
+  document.getElementById("clear").onclick = async () => {
+    await fetch(base + "/requests", { method: "DELETE" });
+    selectedId = undefined;
+    document.getElementById("detail").replaceChildren();
+    await refresh();
+  };
+
+  refresh();
+  setInterval(refresh, 2000);
+</script>
+</body>
+</html>`;
+}
+
+type NameTemplatePlaceholder = "user" | "branch" | "machine";
+
+// Placeholder values per directory, resolved lazily (git and the machine id are only consulted when used);
+// {user} and {machine} are the same everywhere
+const nameTemplateValues = new Map<string, Partial<Record<NameTemplatePlaceholder, string>>>();
+const nameTemplateResolvers: Record<NameTemplatePlaceholder, (cwd: string) => string> = {
+  user: () => {
+    try {
+      return os.userInfo().username;
+    } catch {
+      return process.env.USER || process.env.USERNAME || "";
+    }
+  },
+  branch: (cwd) => {
+    const git = (...args: string[]) =>
+      execFileSync("git", args, { cwd, encoding: "utf8", stdio: ["ignore", "pipe", "ignore"], timeout: 5000 }).trim();
+    try {
+      return git("symbolic-ref", "--short", "HEAD");
+    } catch {
+      // Detached HEAD (e.g. in CI) falls back to the short commit hash
+      try {
+        return git("rev-parse", "--short", "HEAD");
+      } catch {
+        return "";
+      }
+    }
+  },
+  machine: () => {
+    let machineId = os.hostname();
+    for (const file of ["/etc/machine-id", "/var/lib/dbus/machine-id"]) {
+      try {
+        machineId = readFileSync(file, "utf8").trim() || machineId;
+        break;
+      } catch {
+        /* not available on this platform */
+      }
+    }
+    // Hashed so the raw machine id never ends up in public DNS
+    return createHash("sha256").update(machineId).digest("hex").slice(0, 8);
+  },
+};
+
+/**
+ * Turn an arbitrary value into something usable inside a DNS label and a
+ * tunnel name: lower-case letters, digits and single hyphens, at most 24 chars
+ * (so that two placeholders still fit in a 63 character DNS label).
+ */
+function toDnsSafe(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, 24)
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * List the placeholders used by a name template, in order of appearance.
+ */
+function templatePlaceholdersIn(template: string | undefined): string[] {
+  return typeof template === "string" ? [...template.matchAll(NAME_TEMPLATE_REGEX)].map((match) => `{${match[1]}}`) : [];
+}
+
+/**
+ * Replace `{user}`, `{branch}` and `{machine}` in a hostname or tunnel name
+ * template, reading the git branch in `cwd`. Non-string values are returned
+ * unchanged for later validation.
+ */
+function expandNameTemplate<T>(template: T, cwd: string): T {
+  if (typeof template !== "string" || !template.includes("{")) return template;
+  return template.replace(NAME_TEMPLATE_REGEX, (placeholder, name: string) => {
+    if (!(name in nameTemplateResolvers)) {
+      throw new Error(
+        `[cloudflare-tunnel] Unknown placeholder ${placeholder} in '${template}'. Supported placeholders: {user}, {branch}, {machine}`
+      );
+    }
+    const key = name as NameTemplatePlaceholder;
+    const values = nameTemplateValues.get(cwd) ?? {};
+    nameTemplateValues.set(cwd, values);
+    values[key] ??= toDnsSafe(nameTemplateResolvers[key](cwd));
+    if (!values[key]) {
+      throw new Error(`[cloudflare-tunnel] Could not resolve ${placeholder} in '${template}'${key === "branch" ? ` (${cwd} is not a git repository?)` : ""}`);
+    }
+    return values[key]!;
+  }) as T;
+}
+
+/**
+ * Check that a value implements the `info`, `warn` and `error` methods of a {@link TunnelLogger}.
+ */
+function isTunnelLogger(value: unknown): value is TunnelLogger {
+  return typeof value === "object" && value !== null &&
+    (["info", "warn", "error"] as const).every((method) => typeof (value as Partial<TunnelLogger>)[method] === "function");
+}
+
+/**
+ * Split a line of cloudflared output into timestamp, level, message and
+ * trailing `key=value` fields. Lines that don't follow cloudflared's log
+ * format are returned as a bare message.
+ */
+export function parseCloudflaredLine(line: string): CloudflaredLogLine {
+  const trimmed = line.trim();
+  const match = CLOUDFLARED_LINE_REGEX.exec(trimmed);
+  if (!match) {
+    return { message: trimmed, fields: {} };
+  }
+  // Fields are peeled off the end so that '=' inside the message is left alone
+  let rest = match[3]!;
+  const fields: Array<[string, string]> = [];
+  let fieldMatch: RegExpExecArray | null;
+  while ((fieldMatch = CLOUDFLARED_FIELD_REGEX.exec(rest))) {
+    const [, key, rawValue] = fieldMatch;
+    let value = rawValue!;
+    if (value.startsWith('"')) {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        value = value.slice(1, -1);
+      }
+    }
+    fields.unshift([key!, value]);
+    rest = rest.slice(0, fieldMatch.index);
+  }
+  return {
+    timestamp: match[1]!,
+    level: CLOUDFLARED_LEVELS[match[2] as keyof typeof CLOUDFLARED_LEVELS],
+    message: rest.trim(),
+    fields: Object.fromEntries(fields),
+  };
+}
+
+/**
+ * Generate the source of the `virtual:vite-plugin-cloudflare-tunnel` module.
+ * The initial values are baked in; later changes arrive over Vite's HMR channel.
+ */
+function generateVirtualModule(url: string, status: TunnelStatus, metrics?: TunnelMetrics): string {
+  return `
+let url = ${JSON.stringify(url)};
+let status = ${JSON.stringify(status)};
+let metrics = ${JSON.stringify(metrics ?? null)};
+const urlListeners = new Set();
+let readyWaiters = [];
+
+function applyState(next) {
+  const previousUrl = url;
+  url = next.url;
+  status = next.status;
+  metrics = next.metrics ?? null;
+  if (url !== previousUrl) {
+    for (const listener of urlListeners) listener(url, previousUrl);
+  }
+  if (status === "connected" && readyWaiters.length > 0) {
+    const waiters = readyWaiters;
+    readyWaiters = [];
+    for (const resolve of waiters) resolve(url);
+  }
+}
+
+if (import.meta.hot) {
+  import.meta.hot.on(${JSON.stringify(TUNNEL_STATE_EVENT)}, applyState);
+  import.meta.hot.send(${JSON.stringify(TUNNEL_STATE_REQUEST_EVENT)});
+}
+
+export function getTunnelUrl() { return url; }
+export function getTunnelStatus() { return status; }
+export function getTunnelMetrics() { return metrics; }
+export function onTunnelUrlChange(callback) {
+  urlListeners.add(callback);
+  return () => { urlListeners.delete(callback); };
+}
+export function whenTunnelReady() {
+  if (status === "connected" || status === "disabled") return Promise.resolve(url);
+  return new Promise((resolve) => { readyWaiters.push(resolve); });
+}
+`;
+}
+
+/**
+ * Client code of the tunnel status overlay. It renders into a shadow root so
+ * page styles don't leak in, and is fed entirely by the state HMR events.
+ */
+function generateOverlayModule(): string {
+  return `
+const host = document.createElement("vite-cloudflare-tunnel-overlay");
+const root = host.attachShadow({ mode: "open" });
+root.innerHTML = \`
+<style>
+  :host { all: initial; position: fixed; right: 12px; bottom: 12px; z-index: 2147483647; font: 12px/1.4 system-ui, sans-serif; color: #1f2328; }
+  .badge { display: flex; align-items: center; gap: 6px; padding: 4px 10px; border-radius: 999px; background: #fff; border: 1px solid #d0d7de; box-shadow: 0 1px 4px rgba(0,0,0,.15); cursor: pointer; }
+  .dot { width: 8px; height: 8px; border-radius: 50%; background: #9a6700; }
+  .dot.connected { background: #1a7f37; } .dot.down { background: #cf222e; } .dot.disabled { background: #8c959f; }
+  .panel { display: none; margin-bottom: 8px; padding: 10px; width: 220px; background: #fff; border: 1px solid #d0d7de; border-radius: 8px; box-shadow: 0 4px 12px rgba(0,0,0,.15); }
+  :host(.open) .panel { display: block; }
+  .url { display: block; margin-bottom: 6px; word-break: break-all; color: #0969da; }
+  .qr svg { display: block; width: 100%; height: auto; }
+  .row { display: flex; justify-content: space-between; align-items: center; margin-top: 6px; }
+  button { font: inherit; padding: 2px 8px; cursor: pointer; }
+</style>
+<div class="panel">
+  <a class="url" target="_blank" rel="noreferrer"></a>
+  <div class="qr"></div>
+  <div class="row"><span class="connections"></span><button class="copy">Copy URL</button></div>
+</div>
+<div class="badge"><span class="dot"></span><span class="status">Tunnel starting</span></div>
+\`;
+document.body.appendChild(host);
+
+let state = { url: "", status: "starting", connections: 0, qrCode: "" };
+const $ = (selector) => root.querySelector(selector);
+
+function render() {
+  $(".dot").className = "dot " + state.status;
+  $(".status").textContent = "Tunnel " + state.status;
+  $(".url").textContent = state.url || "No public URL yet";
+  $(".url").href = state.url || "#";
+  $(".qr").innerHTML = state.qrCode || "";
+  $(".connections").textContent = state.connections + " edge connection" + (state.connections === 1 ? "" : "s");
+  $(".copy").disabled = !state.url;
+}
+
+$(".badge").addEventListener("click", () => host.classList.toggle("open"));
+$(".copy").addEventListener("click", async () => {
+  await navigator.clipboard.writeText(state.url);
+  $(".copy").textContent = "Copied!";
+  setTimeout(() => { $(".copy").textContent = "Copy URL"; }, 1500);
+});
+
+render();
+if (import.meta.hot) {
+  import.meta.hot.on(${JSON.stringify(TUNNEL_STATE_EVENT)}, (next) => {
+    state = { ...state, ...next };
+    render();
+  });
+  import.meta.hot.send(${JSON.stringify(TUNNEL_STATE_REQUEST_EVENT)});
+}
+`;
+}
+
+/**
+ * Contents of the persistent-mode lockfile
+ */
+interface DaemonLock {
+  pid: number;
+  /** Hash of the daemon's command line, checked before attaching to or signalling `pid` */
+  commandHash: string;
+  configHash: string;
+  url: string;
+  startedAt: string;
+  /** Address of the daemon's metrics server, used for health polling after attaching */
+  metricsAddress?: string;
+}
+
+/**
+ * Read the persistent-mode lockfile, returning undefined when missing or corrupt.
+ */
+async function readDaemonLock(file: string): Promise<DaemonLock | undefined> {
+  try {
+    const lock = JSON.parse(await fs.readFile(file, "utf8"));
+    return typeof lock?.pid === "number" && typeof lock?.commandHash === "string" && typeof lock?.configHash === "string"
+      ? lock
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Contents of a cloudflared tunnel credentials file
+ */
+interface TunnelCredentials {
+  AccountTag: string;
+  TunnelSecret: string;
+  TunnelID: string;
+}
+
+/**
+ * Read a tunnel credentials file, returning undefined when missing or corrupt.
+ */
+async function readTunnelCredentials(file: string): Promise<TunnelCredentials | undefined> {
+  try {
+    const credentials = JSON.parse(await fs.readFile(file, "utf8"));
+    return typeof credentials?.TunnelID === "string" && typeof credentials?.TunnelSecret === "string"
+      ? credentials
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Render a cloudflared `config.yml` for a locally-managed tunnel. Values are
+ * emitted as JSON strings, which YAML reads as double-quoted scalars.
+ */
+function renderTunnelConfigYaml(
+  tunnelId: string,
+  ingress: Array<{ hostname?: string; path?: string; service: string }>
+): string {
+  const lines = [
+    "# Generated by vite-plugin-cloudflare-tunnel from your Vite config; changes are overwritten on start",
+    `tunnel: ${JSON.stringify(tunnelId)}`,
+    "ingress:",
+  ];
+  for (const rule of ingress) {
+    const fields = Object.entries(rule).filter(([, value]) => value !== undefined);
+    fields.forEach(([key, value], index) => {
+      lines.push(`${index === 0 ? "  - " : "    "}${key}: ${JSON.stringify(value)}`);
+    });
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Check that a request was sent by a page on the same origin (or by a non-browser client).
+ */
+function isSameOriginRequest(req: Connect.IncomingMessage): boolean {
+  const fetchSite = req.headers["sec-fetch-site"];
+  if (fetchSite !== undefined) return fetchSite === "same-origin" || fetchSite === "none";
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copy of an inspected request with credential headers replaced, for writing to disk.
+ */
+function redactInspectedRequest(entry: InspectedRequest): InspectedRequest {
+  const headers = Object.fromEntries(
+    Object.entries(entry.headers).map(([name, value]) => [name, REDACTED_HEADERS.has(name) ? REDACTED_VALUE : value])
+  );
+  return { ...entry, headers };
+}
+
+/**
+ * Check whether a process with the given PID is still running.
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Read the command line of a running process, or undefined when it cannot be determined.
+ */
+function readProcessCommand(pid: number): string | undefined {
+  try {
+    if (process.platform === "linux") {
+      return readFileSync(`/proc/${pid}/cmdline`, "utf8").replace(/\0+$/, "").split("\0").join(" ") || undefined;
+    }
+    if (process.platform === "win32") {
+      // Windows does not expose other processes' arguments without WMI; the image name has to do
+      const output = execFileSync("tasklist", ["/FI", `PID eq ${pid}`, "/FO", "CSV", "/NH"], { encoding: "utf8", windowsHide: true });
+      return output.match(/^"([^"]+)"/)?.[1];
+    }
+    return execFileSync("ps", ["-o", "command=", "-p", String(pid)], { encoding: "utf8" }).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * SHA-256 of a process's command line with the `--token` value left out, so
+ * the daemon lockfile identifies cloudflared without holding its tunnel token.
+ */
+function hashProcessCommand(pid: number): string | undefined {
+  const command = readProcessCommand(pid);
+  return command && createHash("sha256").update(command.replace(/(--token[=\s]+)\S+/g, "$1")).digest("hex");
+}
+
+/**
+ * Check whether the process recorded in a daemon lock is still the cloudflared
+ * daemon that wrote it, and not an unrelated process that reused its PID.
+ */
+function isDaemonProcess(lock: DaemonLock): boolean {
+  return isProcessAlive(lock.pid) && hashProcessCommand(lock.pid) === lock.commandHash;
+}
+
+/**
+ * Stream content appended to a file after `offset`, like `tail -f`.
+ */
+function followFile(file: string, offset: number, intervalMs = 250): { stream: PassThrough; stop: () => void } {
+  const stream = new PassThrough();
+  let reading = false;
+  const poll = async () => {
+    if (reading) return;
+    reading = true;
+    try {
+      const handle = await fs.open(file, "r");
+      try {
+        const { size } = await handle.stat();
+        if (size > offset) {
+          const buffer = Buffer.alloc(size - offset);
+          await handle.read(buffer, 0, buffer.length, offset);
+          offset = size;
+          stream.write(buffer);
+        }
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      // File not created yet – try again on the next tick
+    } finally {
+      reading = false;
+    }
+  };
+  void poll();
+  const timer = setInterval(poll, intervalMs);
+  timer.unref();
+  return {
+    stream,
+    stop: () => {
+      clearInterval(timer);
+      stream.end();
+    },
+  };
+}
+
+/**
+ * Exponential back-off delay for the given 1-based attempt number.
+ */
+function backoffDelay(attempt: number, initialDelayMs: number, maxDelayMs = Infinity): number {
+  return Math.min(initialDelayMs * 2 ** (attempt - 1), maxDelayMs);
+}
+
+/**
+ * Zone names that could contain a hostname, longest first: every suffix down
+ * to the registrable domain, so `dev.app.example.co.uk` yields
+ * `dev.app.example.co.uk`, `app.example.co.uk` and `example.co.uk` but never
+ * the public suffix `co.uk`.
+ */
+function zoneCandidatesFor(hostname: string): string[] {
+  const labels = hostname.toLowerCase().replace(/\.$/, "").split(".");
+  const registrableDomain = getDomain(hostname) ?? labels.slice(-2).join(".");
+  const count = labels.length - registrableDomain.split(".").length + 1;
+  return Array.from({ length: Math.max(count, 1) }, (_, index) => labels.slice(index).join("."));
+}
+
+/**
+ * Find the most specific zone containing a hostname (delegated subzones win
+ * over their parent). Returns every zone with that name the token can see,
+ * limited to `accountId` when given.
+ */
+async function findZonesForHostname(
+  cf: CloudflareApiCall,
+  apiToken: string,
+  hostname: string,
+  accountId?: string
+): Promise<Zone[]> {
+  const candidates = zoneCandidatesFor(hostname);
+  for (const candidate of candidates) {
+    const accountFilter = accountId ? `&account.id=${encodeURIComponent(accountId)}` : "";
+    const zones = await cf(apiToken, "GET", `/zones?name=${encodeURIComponent(candidate)}${accountFilter}`, undefined, z.array(ZoneSchema));
+    if (zones.length > 0) return zones;
+  }
+  throw new Error(
+    `Zone for ${hostname} not found${accountId ? ` in account ${accountId}` : ""} (tried: ${candidates.join(", ")})`
+  );
+}
+
+/**
+ * Return the parent domain of a hostname (e.g. "dev.example.com" → "example.com").
+ */
+function parentDomainOf(host: string): string {
+  return host.split(".").slice(1).join(".");
+}
+
+/**
+ * Copy text to the system clipboard with the platform's clipboard command,
+ * trying the Wayland and X11 tools in turn on Linux.
+ */
+async function copyTextToClipboard(text: string): Promise<void> {
+  const commands: Array<[string, string[]]> =
+    process.platform === "darwin" ? [["pbcopy", []]]
+    : process.platform === "win32" ? [["clip", []]]
+    : [["wl-copy", []], ["xclip", ["-selection", "clipboard"]], ["xsel", ["--clipboard", "--input"]]];
+  for (const [command, args] of commands) {
+    const copied = await new Promise<boolean>((resolve) => {
+      const proc = spawn(command, args, { stdio: ["pipe", "ignore", "ignore"], timeout: 5000 });
+      proc.on("error", () => resolve(false));
+      proc.on("exit", (code) => resolve(code === 0));
+      proc.stdin?.on("error", () => { /* reported through the exit code */ });
+      proc.stdin?.end(text);
+    });
+    if (copied) return;
+  }
+  throw new Error(`no clipboard command succeeded (tried ${commands.map(([command]) => command).join(", ")})`);
+}
+
+/**
+ * Find a free TCP port on the loopback interface.
+ */
+function getFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Sum the samples of every metric in Prometheus text format, ignoring labels.
+ */
+function parsePrometheusMetrics(text: string): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const line of text.split("\n")) {
+    // Comment lines (# HELP / # TYPE) don't match
+    const match = line.match(/^([a-zA-Z_:][a-zA-Z0-9_:]*)(?:\{[^}]*\})?\s+(\S+)/);
+    const value = Number(match?.[2]);
+    if (match && Number.isFinite(value)) {
+      totals[match[1]!] = (totals[match[1]!] ?? 0) + value;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Open a URL in the default browser.
+ */
+function openInBrowser(url: string): Promise<void> {
+  const [command, args]: [string, string[]] =
+    process.platform === "darwin" ? ["open", [url]]
+    : process.platform === "win32" ? ["cmd", ["/c", "start", "", url]]
+    : ["xdg-open", [url]];
+  return new Promise((resolve, reject) => {
+    const proc = spawn(command, args, { stdio: "ignore", detached: true });
+    proc.on("error", reject);
+    proc.on("spawn", () => {
+      proc.unref();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Compare two secrets in constant time (hashing first so lengths may differ).
+ */
+function safeEqual(actual: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(actual), digest(expected));
+}
+
+/**
+ * Check whether a DNS/certificate name (exact or `*.` wildcard) covers a hostname.
+ * Wildcards only cover a single label, matching Cloudflare's behaviour.
+ */
+function hostMatches(pattern: string, host: string): boolean {
+  if (pattern.startsWith("*.")) {
+    return parentDomainOf(host) === pattern.slice(2);
+  }
+  return pattern === host;
+}
+
 /**
  * Ensure that the cloudflared binary exists on disk, installing it if missing.
  * @param binPath - Path where the binary should live.
+ * @param log - Logger used to report the installation.
  */
-async function ensureCloudflaredBinary(binPath: string) {
+async function ensureCloudflaredBinary(binPath: string, log: TunnelLogger) {
   try {
     await fs.access(binPath);
   } catch {
-    console.log("[cloudflare-tunnel] Installing cloudflared binary...");
+    log.info("Installing cloudflared binary...");
     await install(binPath);
   }
 }
@@ -1461,6 +4219,430 @@ function getLocalTarget(host: string, port: number): string {
   return `http://${isIpv6 ? `[${host}]` : host}:${port}`;
 }
 
+/* -------------------------------------------------------------------------- */
+/* Cloudflare API client & tagged resource helpers (shared with the CLI)      */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Call a Cloudflare v4 API endpoint and return its (optionally validated) `result`
+ */
+export type CloudflareApiCall = <T>(
+  apiToken: string,
+  method: string,
+  url: string,
+  body?: unknown,
+  resultSchema?: z.ZodSchema<T>
+) => Promise<T>;
+
+export interface CloudflareApiOptions {
+  /** @default "https://api.cloudflare.com/client/v4" */
+  apiBaseUrl?: string | undefined;
+  /** @default globalThis.fetch */
+  fetch?: typeof fetch | undefined;
+  /** Receives request/response traces */
+  debugLog?: ((...args: unknown[]) => void) | undefined;
+  /**
+   * Abort a request (and each page of a list) that takes longer than this
+   * @default 30000
+   */
+  timeoutMs?: number | undefined;
+  /**
+   * Retries for rate-limited requests (429, honouring `Retry-After`) and for
+   * idempotent requests failing with a 5xx or network error
+   * @default 3
+   */
+  maxRetries?: number | undefined;
+}
+
+// Requests that can be repeated safely after a 5xx or a dropped connection
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE"]);
+// Longest `Retry-After` honoured before giving up on a rate-limited request
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/**
+ * Create the helper used for every Cloudflare API request.
+ * Non-2xx responses and `success: false` payloads are turned into errors.
+ * GET requests for list endpoints follow `result_info` and return every page
+ * unless the URL already selects a `page` or `per_page`.
+ */
+export function createCloudflareApi(options: CloudflareApiOptions = {}): CloudflareApiCall {
+  const baseUrl = (options.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+  const fetchImpl: typeof fetch = options.fetch || ((...args) => fetch(...args));
+  const debugLog = options.debugLog || (() => {});
+  const timeoutMs = options.timeoutMs ?? 30_000;
+  const maxRetries = options.maxRetries ?? 3;
+
+  // One API exchange, retried on rate limits and transient failures
+  const request = async (apiToken: string, method: string, url: string, body?: unknown) => {
+    for (let attempt = 1; ; attempt++) {
+      const canRetry = attempt <= maxRetries;
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        let response: Response;
+        try {
+          response = await fetchImpl(`${baseUrl}${url}`,
+            {
+              method,
+              headers: {
+                Authorization: `Bearer ${apiToken}`,
+                "Content-Type": "application/json",
+                "User-Agent": "vite-plugin-cloudflare-tunnel/1.0.0",
+              },
+              ...(body ? { body: JSON.stringify(body) } : {}),
+              signal: controller.signal,
+            }
+          );
+        } catch (error) {
+          const reason = controller.signal.aborted ? `timed out after ${timeoutMs}ms` : (error as Error).message;
+          if (!canRetry || !IDEMPOTENT_METHODS.has(method)) throw new Error(reason);
+          const delay = backoffDelay(attempt, 500);
+          debugLog(`↻ ${method} ${url} failed (${reason}); retrying in ${delay}ms`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
+        }
+
+        // A 429 was rejected before processing, so even non-idempotent requests can be resent
+        const retryable = response.status === 429 || (response.status >= 500 && IDEMPOTENT_METHODS.has(method));
+        if (retryable && canRetry) {
+          const retryAfter = response.status === 429 ? parseRetryAfter(response.headers.get("retry-after")) : undefined;
+          const delay = retryAfter ?? backoffDelay(attempt, 1000);
+          if (delay <= MAX_RETRY_AFTER_MS) {
+            await response.body?.cancel().catch(() => {});
+            debugLog(`↻ ${method} ${url} returned ${response.status}; retrying in ${delay}ms`);
+            await new Promise((resolve) => setTimeout(resolve, delay));
+            continue;
+          }
+        }
+
+        if (!response.ok) {
+          const errorText = await response.text().catch(() => "Unknown error");
+          throw new Error(
+            `[cloudflare-tunnel] API request failed: ${response.status} ${response.statusText}. Response: ${errorText}`
+          );
+        }
+
+        const rawData = await response.json();
+        debugLog("← CF API response", rawData);
+        const apiResponse = CloudflareApiResponseSchema.parse(rawData);
+
+        if (!apiResponse.success) {
+          const errorMsg =
+            apiResponse.errors?.map((e) => e.message || `Error ${e.code}`).join(", ") ||
+            "Unknown API error";
+          throw new Error(`[cloudflare-tunnel] Cloudflare API error: ${errorMsg}`);
+        }
+        return apiResponse;
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+
+  return async <T>(
+    apiToken: string,
+    method: string,
+    url: string,
+    body?: unknown,
+    resultSchema?: z.ZodSchema<T>
+  ): Promise<T> => {
+    try {
+      debugLog("→ CF API", method, url, body ? { body } : "");
+
+      const apiResponse = await request(apiToken, method, url, body);
+      let result = apiResponse.result;
+
+      // List endpoints return one page at a time
+      if (method === "GET" && Array.isArray(result) && !/[?&](page|per_page)=/.test(url)) {
+        const items: unknown[] = [...result];
+        let info = apiResponse.result_info;
+        for (let page = (info?.page ?? 1) + 1; page <= totalPages(info); page++) {
+          debugLog("→ CF API", method, url, { page });
+          const next = await request(apiToken, method, `${url}${url.includes("?") ? "&" : "?"}page=${page}`);
+          if (!Array.isArray(next.result) || next.result.length === 0) break;
+          items.push(...next.result);
+          info = next.result_info;
+        }
+        result = items;
+      }
+
+      if (resultSchema) {
+        const parsed = resultSchema.parse(result);
+        debugLog("← Parsed result", parsed);
+        return parsed;
+      }
+
+      debugLog("← Result (untyped)", result);
+      return result as T;
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message.includes("[cloudflare-tunnel]")) {
+          throw error;
+        }
+        throw new Error(`[cloudflare-tunnel] API request failed: ${error.message}`);
+      }
+      throw new Error("[cloudflare-tunnel] Unknown API error occurred");
+    }
+  };
+}
+
+/**
+ * Number of pages a list response spans (1 when `result_info` is missing).
+ */
+function totalPages(info: z.infer<typeof CloudflareApiResponseSchema>["result_info"]): number {
+  if (info?.total_pages !== undefined) return info.total_pages;
+  if (info?.total_count !== undefined && info.per_page) return Math.ceil(info.total_count / info.per_page);
+  return 1;
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or an HTTP date) into milliseconds.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Resources tagged by the plugin, grouped by the tunnel name they belong to
+ */
+export interface TunnelResources {
+  tunnelName: string;
+  /** The tunnel itself, if it still exists */
+  tunnel?: Tunnel | undefined;
+  dnsRecords: Array<DNSRecord & { zone_id: string; zone_name: string }>;
+  certificatePacks: Array<{ id: string; zone_id: string; zone_name: string; hosts: string[] }>;
+  accessApplications: AccessApplication[];
+}
+
+/**
+ * Extract the tunnel name from a plugin certificate tag hostname
+ * (`cf-tunnel-plugin-<tunnelName>--<parent domain>`).
+ */
+function tunnelNameFromSslTag(host: string): string | undefined {
+  if (!host.startsWith(SSL_TAG_PREFIX)) return undefined;
+  // Tunnel names may contain "--" themselves, so split at the last one in the
+  // first label, unless that one belongs to a punycode ("xn--") domain label
+  const label = host.slice(SSL_TAG_PREFIX.length).split(".")[0]!;
+  let separator = label.lastIndexOf("--");
+  if (separator >= 4 && label.slice(separator - 4, separator) === "--xn") separator -= 4;
+  return separator <= 0 ? undefined : label.slice(0, separator);
+}
+
+/**
+ * Find an account by ID, or by name (case-insensitive).
+ * @param accounts - Accounts returned by `GET /accounts`
+ * @param idOrName - Account ID or account name
+ */
+export function findAccount(accounts: Account[], idOrName: string): Account | undefined {
+  return (
+    accounts.find((account) => account.id === idOrName) ??
+    accounts.find((account) => account.name.toLowerCase() === idOrName.toLowerCase())
+  );
+}
+
+/**
+ * Find every tunnel, DNS record, certificate pack and Access application the
+ * plugin created in an account. Zones default to all zones of the account.
+ * @param cf - API helper from {@link createCloudflareApi}
+ * @param apiToken - Cloudflare API token
+ * @param accountId - Account to inspect
+ * @param zones - Zones to scan for DNS records and certificates
+ * @param includeTunnel - Also report matching tunnels that have no tagged resources left
+ */
+export async function listTunnelResources(
+  cf: CloudflareApiCall,
+  apiToken: string,
+  accountId: string,
+  zones?: Zone[],
+  includeTunnel?: (tunnel: Tunnel) => boolean
+): Promise<TunnelResources[]> {
+  const byName = new Map<string, TunnelResources>();
+  const entry = (tunnelName: string) => {
+    let resources = byName.get(tunnelName);
+    if (!resources) {
+      resources = { tunnelName, dnsRecords: [], certificatePacks: [], accessApplications: [] };
+      byName.set(tunnelName, resources);
+    }
+    return resources;
+  };
+
+  const scannedZones = zones ?? await cf(apiToken, "GET", `/zones?account.id=${accountId}`, undefined, z.array(ZoneSchema));
+  for (const zone of scannedZones) {
+    const records = await cf(
+      apiToken,
+      "GET",
+      `/zones/${zone.id}/dns_records?comment.startswith=${encodeURIComponent(DNS_COMMENT_PREFIX)}`,
+      undefined,
+      z.array(DNSRecordSchema)
+    );
+    for (const record of records) {
+      if (!record.comment?.startsWith(DNS_COMMENT_PREFIX)) continue;
+      entry(record.comment.slice(DNS_COMMENT_PREFIX.length)).dnsRecords.push({ ...record, zone_id: zone.id, zone_name: zone.name });
+    }
+
+    const allCerts = await cf(apiToken, "GET", `/zones/${zone.id}/ssl/certificate_packs?status=all`, undefined, z.array(CertificatePackSchema));
+    for (const cert of allCerts) {
+      const tunnelName = cert.hosts.map(tunnelNameFromSslTag).find(Boolean);
+      if (!tunnelName) continue;
+      entry(tunnelName).certificatePacks.push({ id: cert.id, zone_id: zone.id, zone_name: zone.name, hosts: cert.hosts });
+    }
+  }
+
+  try {
+    const apps = await cf(apiToken, "GET", `/accounts/${accountId}/access/apps`, undefined, z.array(AccessApplicationSchema));
+    for (const app of apps) {
+      if (!app.name.startsWith(DNS_COMMENT_PREFIX)) continue;
+      entry(app.name.slice(DNS_COMMENT_PREFIX.length).split(" ")[0]!).accessApplications.push(app);
+    }
+  } catch {
+    // Access permissions are optional
+  }
+
+  const tunnels = await cf(apiToken, "GET", `/accounts/${accountId}/cfd_tunnel?is_deleted=false`, undefined, z.array(TunnelSchema));
+  if (includeTunnel) {
+    tunnels.filter(includeTunnel).forEach((tunnel) => entry(tunnel.name));
+  }
+  for (const resources of byName.values()) {
+    resources.tunnel = tunnels.find((tunnel) => tunnel.name === resources.tunnelName);
+  }
+
+  return [...byName.values()].sort((a, b) => a.tunnelName.localeCompare(b.tunnelName));
+}
+
+/**
+ * Split tagged resources into those still in use and orphans: DNS records
+ * pointing at a tunnel that no longer exists, plus certificates and Access
+ * applications whose tunnel is gone.
+ */
+export function findOrphanedResources(resources: TunnelResources[]): TunnelResources[] {
+  return resources
+    .map((group) => {
+      const expectedTarget = group.tunnel ? `${group.tunnel.id}.cfargotunnel.com` : undefined;
+      return {
+        tunnelName: group.tunnelName,
+        tunnel: undefined,
+        dnsRecords: group.dnsRecords.filter((record) => record.content !== expectedTarget),
+        certificatePacks: group.tunnel ? [] : group.certificatePacks,
+        accessApplications: group.tunnel ? [] : group.accessApplications,
+      };
+    })
+    .filter((group) => group.dnsRecords.length + group.certificatePacks.length + group.accessApplications.length > 0);
+}
+
+/**
+ * Pick the branch preview tunnels that should be torn down: their branch no
+ * longer exists locally, or they have been disconnected for `staleAfterDays`.
+ * The tunnel currently in use and tunnels with active connections are never returned.
+ */
+function findStaleBranchTunnels(
+  resources: TunnelResources[],
+  criteria: { prefix: string; currentTunnelName: string; localBranches: string[]; staleAfterDays: number; now?: number }
+): Array<TunnelResources & { reason: string }> {
+  const branchSlugs = new Set(criteria.localBranches.map(toDnsSafe));
+  const cutoff = (criteria.now ?? Date.now()) - criteria.staleAfterDays * 24 * 60 * 60 * 1000;
+  const stale: Array<TunnelResources & { reason: string }> = [];
+  for (const group of resources) {
+    if (!group.tunnelName.startsWith(criteria.prefix) || group.tunnelName === criteria.currentTunnelName) continue;
+    // Someone is still serving from it, whatever the local branches say
+    const tunnel = group.tunnel;
+    if (tunnel && (tunnel.conns_active_at || (tunnel.connections?.length ?? 0) > 0)) continue;
+    const slug = group.tunnelName.slice(criteria.prefix.length);
+    if (!branchSlugs.has(slug)) {
+      stale.push({ ...group, reason: "branch no longer exists locally" });
+      continue;
+    }
+    const lastSeen = tunnel ? Date.parse(tunnel.conns_inactive_at ?? tunnel.created_at) : NaN;
+    if (lastSeen < cutoff) {
+      stale.push({ ...group, reason: `no connection for more than ${criteria.staleAfterDays} days` });
+    }
+  }
+  return stale;
+}
+
+/**
+ * Read the names of branch tunnels created from this clone (empty when missing or corrupt).
+ */
+async function readBranchLedger(file: string): Promise<string[]> {
+  try {
+    const names = JSON.parse(await fs.readFile(file, "utf8"));
+    return Array.isArray(names) ? names.filter((name): name is string => typeof name === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List the local branch names of the git repository at `cwd`, or undefined
+ * outside a git repository (or before the first commit, when no branch ref
+ * exists yet).
+ */
+function listLocalGitBranches(cwd: string): string[] | undefined {
+  try {
+    const branches = execFileSync("git", ["for-each-ref", "--format=%(refname:short)", "refs/heads"], {
+      cwd,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+      timeout: 5000,
+    }).split("\n").map((branch) => branch.trim()).filter(Boolean);
+    return branches.length > 0 ? branches : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Delete a group of tagged resources. DNS records and Access applications go
+ * first so nothing keeps routing to the tunnel, which is deleted last.
+ * @returns Human readable descriptions of the resources that could not be deleted
+ */
+export async function deleteTunnelResources(
+  cf: CloudflareApiCall,
+  apiToken: string,
+  accountId: string,
+  resources: TunnelResources,
+  log: Pick<TunnelLogger, "info" | "error"> = {
+    info: (message) => console.log(`[cloudflare-tunnel] ${message}`),
+    error: (message) => console.error(`[cloudflare-tunnel] ${message}`),
+  }
+): Promise<string[]> {
+  const failures: string[] = [];
+  const attempt = async (description: string, fn: () => Promise<unknown>) => {
+    try {
+      await fn();
+      log.info(`✅ Deleted ${description}`);
+    } catch (error) {
+      failures.push(description);
+      log.error(`❌ Failed to delete ${description}: ${(error as Error).message}`);
+    }
+  };
+
+  for (const record of resources.dnsRecords) {
+    await attempt(`DNS record ${record.name} → ${record.content}`, () =>
+      cf(apiToken, "DELETE", `/zones/${record.zone_id}/dns_records/${record.id}`));
+  }
+  for (const app of resources.accessApplications) {
+    await attempt(`Access application ${app.domain ?? app.name}`, () =>
+      cf(apiToken, "DELETE", `/accounts/${accountId}/access/apps/${app.id}`));
+  }
+  for (const cert of resources.certificatePacks) {
+    await attempt(`certificate pack ${cert.id} (${cert.hosts.join(", ")})`, () =>
+      cf(apiToken, "DELETE", `/zones/${cert.zone_id}/ssl/certificate_packs/${cert.id}`));
+  }
+  if (resources.tunnel) {
+    const tunnelId = resources.tunnel.id;
+    await attempt(`tunnel ${resources.tunnelName} (${tunnelId})`, async () => {
+      // Active connections must be dropped before a tunnel can be deleted
+      await cf(apiToken, "DELETE", `/accounts/${accountId}/cfd_tunnel/${tunnelId}/connections`);
+      await cf(apiToken, "DELETE", `/accounts/${accountId}/cfd_tunnel/${tunnelId}`);
+    });
+  }
+  return failures;
+}
+
 // Export both as named export and default export
 export { cloudflareTunnel };
 export default cloudflareTunnel;
@@ -0,0 +1,348 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { createServer, type ViteDevServer } from "vite";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import cloudflareTunnel, { type CloudflareTunnelOptions, type TunnelExitInfo, type TunnelReadyInfo } from "./index";
+import { createMockCloudflareApi, type MockCloudflareApi } from "./testing";
+
+const { spawned } = vi.hoisted(() => ({ spawned: [] as Array<{ args: string[] }> }));
+
+vi.mock("cloudflared", () => ({ bin: "/fake/bin/cloudflared", install: vi.fn(async () => {}) }));
+
+// cloudflared is replaced by a process that registers one edge connection and exits when killed
+vi.mock("node:child_process", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:child_process")>();
+  const { EventEmitter } = await import("node:events");
+  const { PassThrough } = await import("node:stream");
+
+  class FakeCloudflared extends EventEmitter {
+    pid = 40000 + spawned.length;
+    stdout = new PassThrough();
+    stderr = new PassThrough();
+    killed = false;
+    exitCode: number | null = null;
+    signalCode: NodeJS.Signals | null = null;
+
+    constructor() {
+      super();
+      setTimeout(() => {
+        this.stderr.write(`${new Date().toISOString()} INF Registered tunnel connection connIndex=0 location=lhr01 protocol=quic\n`);
+      }, 10);
+    }
+
+    kill(signal: NodeJS.Signals = "SIGTERM") {
+      this.killed = true;
+      this.signalCode = signal;
+      setImmediate(() => this.emit("exit", null, signal));
+      return true;
+    }
+
+    unref() {}
+  }
+
+  return {
+    ...actual,
+    spawn: vi.fn((command: string, args: string[], options: object) => {
+      if (command !== "/fake/bin/cloudflared") return actual.spawn(command, args, options);
+      spawned.push({ args });
+      return new FakeCloudflared();
+    }),
+  };
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ZONE = { id: "zone-1", name: "example.com", account: { id: "acc-1", name: "Dev" } };
+const silentLogger = { info() {}, warn() {}, error() {} };
+
+const mockTunnel = (id: string, name: string) => ({
+  id,
+  name,
+  account_tag: "acc-1",
+  created_at: new Date().toISOString(),
+  config_src: "cloudflare",
+  remote_config: true,
+  connections: [],
+});
+
+let root: string;
+let server: ViteDevServer | undefined;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), "cloudflare-tunnel-test-"));
+  spawned.length = 0;
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = undefined;
+  // Each test starts from a fresh tunnel session
+  delete (globalThis as Record<symbol, unknown>)[Symbol.for("vite-plugin-cloudflare-tunnel.sessions")];
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+/**
+ * Start a dev server with the plugin against the mock API.
+ */
+async function startDevServer(api: MockCloudflareApi, options: Partial<CloudflareTunnelOptions> = {}): Promise<void> {
+  server = await createServer({
+    root,
+    configFile: false,
+    logLevel: "silent",
+    cacheDir: path.join(root, ".vite"),
+    server: { port: 5173 },
+    plugins: [
+      cloudflareTunnel({
+        hostname: "dev.example.com",
+        apiToken: "test-token",
+        logger: silentLogger,
+        ...api.options,
+        ...options,
+      } as CloudflareTunnelOptions),
+    ],
+  });
+}
+
+/**
+ * Start a dev server and wait until the tunnel reports ready.
+ */
+async function startTunnel(api: MockCloudflareApi, options: Partial<CloudflareTunnelOptions> = {}): Promise<TunnelReadyInfo> {
+  return new Promise<TunnelReadyInfo>((resolve, reject) => {
+    startDevServer(api, { ...options, onTunnelReady: resolve }).catch(reject);
+  });
+}
+
+describe("named tunnel against the mock Cloudflare API", () => {
+  it("creates the tunnel, its configuration and DNS record, then runs cloudflared with its token", async () => {
+    const api = createMockCloudflareApi({ zones: [ZONE] });
+
+    const info = await startTunnel(api);
+
+    expect(info).toEqual({ url: "https://dev.example.com", mode: "named", hostnames: ["dev.example.com"] });
+    expect(api.state.tunnels.map((tunnel) => tunnel.name)).toEqual(["vite-tunnel"]);
+    const tunnelId = api.state.tunnels[0]!.id;
+    expect(api.state.tunnelConfigurations[tunnelId]).toMatchObject({
+      ingress: [
+        { hostname: "dev.example.com", service: "http://localhost:5173" },
+        { service: "http_status:404" },
+      ],
+    });
+    expect(api.state.dnsRecords).toEqual([
+      expect.objectContaining({
+        zone_id: "zone-1",
+        type: "CNAME",
+        name: "dev.example.com",
+        content: `${tunnelId}.cfargotunnel.com`,
+        proxied: true,
+        comment: "vite-plugin-cloudflare-tunnel:vite-tunnel",
+      }),
+    ]);
+
+    expect(spawned).toHaveLength(1);
+    const args = spawned[0]!.args;
+    expect(args.slice(0, 3)).toEqual(["tunnel", "--loglevel", "info"]);
+    expect(args.slice(-3, -1)).toEqual(["run", "--token"]);
+    expect(args.at(-1)).toEqual(expect.any(String));
+  });
+
+  it("reuses an existing tunnel and DNS record on the next start", async () => {
+    const api = createMockCloudflareApi({
+      zones: [ZONE],
+      tunnels: [{
+        id: "tunnel-1",
+        name: "vite-tunnel",
+        account_tag: "acc-1",
+        created_at: "2025-01-01T00:00:00Z",
+        config_src: "cloudflare",
+        remote_config: true,
+        connections: [],
+      }],
+      dnsRecords: [{
+        id: "record-1",
+        zone_id: "zone-1",
+        type: "CNAME",
+        name: "dev.example.com",
+        content: "tunnel-1.cfargotunnel.com",
+        proxied: true,
+        comment: "vite-plugin-cloudflare-tunnel:vite-tunnel",
+      }],
+    });
+
+    await startTunnel(api);
+
+    const writes = api.requests.filter((request) => request.method !== "GET").map((request) => `${request.method} ${request.path}`);
+    expect(writes).not.toContain("POST /accounts/acc-1/cfd_tunnel");
+    expect(writes.some((write) => write.startsWith("POST /zones/zone-1/dns_records"))).toBe(false);
+    expect(writes).toContain("PUT /accounts/acc-1/cfd_tunnel/tunnel-1/configurations");
+    expect(api.state.tunnels).toHaveLength(1);
+    expect(api.state.dnsRecords.map((record) => record.id)).toEqual(["record-1"]);
+  });
+
+  it("stops cloudflared when the dev server closes", async () => {
+    const api = createMockCloudflareApi({ zones: [ZONE] });
+    let onExit!: (info: TunnelExitInfo) => void;
+    const exited = new Promise<TunnelExitInfo>((resolve) => { onExit = resolve; });
+
+    await startTunnel(api, { onTunnelExit: onExit });
+    await server!.close();
+    server = undefined;
+
+    await expect(exited).resolves.toEqual({ code: null, signal: "SIGTERM", expected: true });
+  });
+
+  it("only reads from the API in dry-run mode", async () => {
+    const api = createMockCloudflareApi({ zones: [ZONE] });
+
+    const plan = await new Promise<string>((resolve, reject) => {
+      const info = (message: string) => {
+        if (message.includes("📝 Dry run")) resolve(message);
+      };
+      startDevServer(api, { dryRun: true, logLevel: "info", logger: { ...silentLogger, info } } as Partial<CloudflareTunnelOptions>).catch(reject);
+    });
+
+    expect(plan).toContain("POST   /accounts/acc-1/cfd_tunnel");
+    expect(plan).toContain("POST   /zones/zone-1/dns_records");
+    expect(api.requests.filter((request) => request.method !== "GET")).toEqual([]);
+    expect(api.state.tunnels).toEqual([]);
+    expect(api.state.dnsRecords).toEqual([]);
+    expect(spawned).toEqual([]);
+  });
+});
+
+describe("edge certificates", () => {
+  const certificateOrders = (api: MockCloudflareApi) =>
+    api.requests.filter((request) => request.method === "POST" && request.path.endsWith("/ssl/certificate_packs/order"));
+
+  it("orders an edge certificate when Total TLS is disabled", async () => {
+    const api = createMockCloudflareApi({ zones: [ZONE] });
+
+    await startTunnel(api);
+
+    expect(certificateOrders(api).map((request) => (request.body as { hosts: string[] }).hosts[0])).toEqual(["dev.example.com"]);
+  });
+
+  it("relies on Total TLS when it is enabled", async () => {
+    const api = createMockCloudflareApi({
+      zones: [ZONE],
+      totalTls: { "zone-1": { enabled: true, certificate_authority: "google", validity_period: 90 } },
+    });
+
+    await startTunnel(api);
+
+    expect(certificateOrders(api)).toEqual([]);
+  });
+});
+
+describe("zone resolution", () => {
+  const zoneLookups = (api: MockCloudflareApi) =>
+    api.requests.filter((request) => request.path.startsWith("/zones?name=")).map((request) => request.path.slice("/zones?name=".length));
+
+  it("walks the hostname suffixes down to the registrable domain of a multi-label public suffix", async () => {
+    const api = createMockCloudflareApi({ zones: [{ ...ZONE, name: "example.co.uk" }] });
+
+    await startTunnel(api, { hostname: "dev.app.example.co.uk" });
+
+    expect(zoneLookups(api)).toEqual(["dev.app.example.co.uk", "app.example.co.uk", "example.co.uk"]);
+    expect(api.state.dnsRecords.map((record) => [record.zone_id, record.name])).toEqual([["zone-1", "dev.app.example.co.uk"]]);
+  });
+
+  it("prefers a delegated subzone over its parent", async () => {
+    const api = createMockCloudflareApi({ zones: [ZONE, { ...ZONE, id: "zone-app", name: "app.example.com" }] });
+
+    await startTunnel(api, { hostname: "dev.app.example.com" });
+
+    expect(zoneLookups(api)).toEqual(["dev.app.example.com", "app.example.com"]);
+    expect(api.state.dnsRecords.map((record) => [record.zone_id, record.name])).toEqual([["zone-app", "dev.app.example.com"]]);
+  });
+
+  it("checks the token against every zone of the ingress before changing anything", async () => {
+    const api = createMockCloudflareApi({ zones: [ZONE, { ...ZONE, id: "zone-2", name: "example.org" }] });
+
+    await startTunnel(api, { ingress: [{ hostname: "api.example.org", service: "http://localhost:8787" }] });
+
+    const firstWrite = api.requests.findIndex((request) => request.method !== "GET");
+    const probes = api.requests.slice(0, firstWrite).map((request) => request.path).filter((path) => path.endsWith("?per_page=1"));
+    expect(probes).toEqual(expect.arrayContaining([
+      "/zones/zone-1/dns_records?per_page=1",
+      "/zones/zone-1/ssl/certificate_packs?per_page=1",
+      "/zones/zone-2/dns_records?per_page=1",
+      "/zones/zone-2/ssl/certificate_packs?per_page=1",
+    ]));
+  });
+});
+
+describe("locally-managed tunnel config", () => {
+  it("writes config.yml and the credentials file, then runs cloudflared with them", async () => {
+    const api = createMockCloudflareApi({ zones: [ZONE] });
+
+    await startTunnel(api, {
+      configSource: "local",
+      ingress: [{ hostname: "dev.example.com", path: "^/ws", service: "http://localhost:9000" }],
+    } as Partial<CloudflareTunnelOptions>);
+
+    const tunnelId = api.state.tunnels[0]!.id;
+    const configDir = path.join(root, ".cloudflared");
+    expect(await fs.readFile(path.join(configDir, "config.yml"), "utf8")).toBe(
+      [
+        "# Generated by vite-plugin-cloudflare-tunnel from your Vite config; changes are overwritten on start",
+        `tunnel: "${tunnelId}"`,
+        "ingress:",
+        '  - hostname: "dev.example.com"',
+        '    path: "^/ws"',
+        '    service: "http://localhost:9000"',
+        '  - hostname: "dev.example.com"',
+        '    service: "http://localhost:5173"',
+        '  - service: "http_status:404"',
+        "",
+      ].join("\n")
+    );
+    const credentials = JSON.parse(await fs.readFile(path.join(configDir, `${tunnelId}.json`), "utf8"));
+    expect(credentials).toMatchObject({ AccountTag: "acc-1", TunnelID: tunnelId, TunnelSecret: expect.any(String) });
+    // The remote configuration is left alone
+    expect(api.state.tunnelConfigurations[tunnelId]).toBeUndefined();
+
+    const args = spawned[0]!.args;
+    expect(args).toContain("--config");
+    expect(args[args.indexOf("--config") + 1]).toBe(path.join(configDir, "config.yml"));
+    expect(args.slice(-3)).toEqual(["--credentials-file", path.join(configDir, `${tunnelId}.json`), tunnelId]);
+    expect(args).not.toContain("--token");
+  });
+});
+
+describe("branch preview tunnels", () => {
+  const git = (...args: string[]) => execFileSync("git", args, { cwd: root, stdio: "ignore" });
+
+  it("removes idle tunnels of deleted or long-unused branches from the repository of Vite's root", async () => {
+    // The test runner's cwd is a different repository, so branches must come from `root`
+    git("init", "--initial-branch=main");
+    git("-c", "user.name=test", "-c", "user.email=test@example.com", "commit", "--allow-empty", "-m", "init");
+    git("branch", "feature/login");
+    git("branch", "old");
+    const ownTunnels = ["vite-branch-feature-login", "vite-branch-old", "vite-branch-gone", "vite-branch-busy"];
+    await fs.mkdir(path.join(root, ".vite"), { recursive: true });
+    await fs.writeFile(path.join(root, ".vite", "cloudflare-tunnel-branches.json"), JSON.stringify(ownTunnels));
+    const api = createMockCloudflareApi({
+      zones: [ZONE],
+      tunnels: [
+        mockTunnel("tunnel-login", "vite-branch-feature-login"),
+        { ...mockTunnel("tunnel-old", "vite-branch-old"), conns_inactive_at: new Date(Date.now() - 30 * DAY_MS).toISOString() },
+        mockTunnel("tunnel-gone", "vite-branch-gone"),
+        { ...mockTunnel("tunnel-busy", "vite-branch-busy"), conns_active_at: new Date().toISOString() },
+        // Created by a teammate sharing the prefix, so not in this clone's ledger
+        mockTunnel("tunnel-teammate", "vite-branch-teammate"),
+      ],
+    });
+
+    const info = await startTunnel(api, {
+      hostname: undefined,
+      branchPreview: { parentDomain: "preview.example.com" },
+    } as Partial<CloudflareTunnelOptions>);
+
+    expect(info.url).toBe("https://main.preview.example.com");
+    const deletedTunnels = api.requests
+      .filter((request) => request.method === "DELETE" && !request.path.endsWith("/connections"))
+      .map((request) => request.path.split("/").at(-1));
+    expect(deletedTunnels).toEqual(["tunnel-gone", "tunnel-old"]);
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * @fileoverview In-memory Cloudflare API stand-in
+ *
+ * Implements the subset of the Cloudflare v4 REST API used by the plugin
+ * (accounts, token verification, zones, tunnels, DNS records, certificate packs, Total TLS and
+ * Access applications)
+ * so the named tunnel flow can be exercised offline. Pass the returned
+ * `apiBaseUrl` and `fetch` to the plugin options:
+ *
+ * ```typescript
+ * const api = createMockCloudflareApi({
+ *   zones: [{ id: 'zone-1', name: 'example.com', account: { id: 'acc-1', name: 'Dev' } }],
+ * });
+ * cloudflareTunnel({ hostname: 'dev.example.com', apiToken: 'test', ...api.options });
+ * ```
+ *
+ * @license MIT
+ */
+
+import { randomUUID } from "node:crypto";
+
+export interface MockAccount {
+  id: string;
+  name: string;
+}
+
+export interface MockZone {
+  id: string;
+  name: string;
+  account: MockAccount;
+}
+
+export interface MockTunnel {
+  id: string;
+  name: string;
+  account_tag: string;
+  created_at: string;
+  deleted_at?: string | null;
+  config_src: string;
+  remote_config?: boolean;
+  connections: unknown[];
+  conns_active_at?: string | null;
+  conns_inactive_at?: string | null;
+}
+
+export interface MockDnsRecord {
+  id: string;
+  zone_id: string;
+  type: string;
+  name: string;
+  content: string;
+  proxied: boolean;
+  comment?: string | null;
+}
+
+export interface MockCertificatePack {
+  id: string;
+  zone_id: string;
+  type: string;
+  hosts: string[];
+  status: string;
+  certificate_authority?: string;
+  validation_method?: string;
+  validity_days?: number;
+}
+
+export interface MockTotalTls {
+  enabled: boolean;
+  certificate_authority?: string | null;
+  validity_period?: number | null;
+}
+
+export interface MockAccessApplication {
+  id: string;
+  account_id: string;
+  name: string;
+  type: string;
+  domain: string;
+  self_hosted_domains?: string[];
+  session_duration?: string;
+  policies?: unknown[];
+}
+
+/**
+ * Mutable state backing the mock API. Tests may seed it up front and inspect
+ * it after the plugin has run.
+ */
+export interface MockCloudflareState {
+  accounts: MockAccount[];
+  zones: MockZone[];
+  tunnels: MockTunnel[];
+  dnsRecords: MockDnsRecord[];
+  certificatePacks: MockCertificatePack[];
+  /** Total TLS settings keyed by zone ID (defaults to disabled) */
+  totalTls: Record<string, MockTotalTls>;
+  /** Remote tunnel configuration keyed by tunnel ID */
+  tunnelConfigurations: Record<string, unknown>;
+  accessApplications: MockAccessApplication[];
+}
+
+/**
+ * A request received by the mock API
+ */
+export interface MockRequest {
+  method: string;
+  /** Path relative to the API base URL, including the query string */
+  path: string;
+  body: unknown;
+}
+
+export interface MockCloudflareApi {
+  /** Base URL to pass as the plugin's `apiBaseUrl` option */
+  apiBaseUrl: string;
+  /** fetch implementation to pass as the plugin's `fetch` option */
+  fetch: typeof fetch;
+  /** Both of the above, ready to spread into the plugin options */
+  options: { apiBaseUrl: string; fetch: typeof fetch };
+  /** Current state of the in-memory account */
+  state: MockCloudflareState;
+  /** Every request received, in order */
+  requests: MockRequest[];
+}
+
+type RouteHandler = (
+  params: string[],
+  query: URLSearchParams,
+  body: any
+) => { status?: number; result: unknown } | Promise<{ status?: number; result: unknown }>;
+
+class MockApiError extends Error {
+  constructor(readonly status: number, readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+const MOCK_BASE_URL = "https://api.cloudflare.mock/client/v4";
+// Page size of list endpoints when the request doesn't set `per_page`
+const DEFAULT_PER_PAGE = 20;
+
+/**
+ * Create an in-memory Cloudflare API.
+ *
+ * @param seed - Initial state; zones referencing unknown accounts add them automatically
+ * @returns Mock API handle exposing `fetch`, the backing state and a request log
+ */
+export function createMockCloudflareApi(seed: Partial<MockCloudflareState> = {}): MockCloudflareApi {
+  const state: MockCloudflareState = {
+    accounts: [...(seed.accounts ?? [])],
+    zones: [...(seed.zones ?? [])],
+    tunnels: [...(seed.tunnels ?? [])],
+    dnsRecords: [...(seed.dnsRecords ?? [])],
+    certificatePacks: [...(seed.certificatePacks ?? [])],
+    totalTls: { ...(seed.totalTls ?? {}) },
+    tunnelConfigurations: { ...(seed.tunnelConfigurations ?? {}) },
+    accessApplications: [...(seed.accessApplications ?? [])],
+  };
+  for (const zone of state.zones) {
+    if (!state.accounts.some((account) => account.id === zone.account.id)) {
+      state.accounts.push(zone.account);
+    }
+  }
+  const requests: MockRequest[] = [];
+
+  const findZone = (zoneId: string) => {
+    const zone = state.zones.find((z) => z.id === zoneId);
+    if (!zone) throw new MockApiError(404, 1001, `Invalid zone identifier: ${zoneId}`);
+    return zone;
+  };
+
+  const findTunnel = (accountId: string, tunnelId: string) => {
+    const tunnel = state.tunnels.find((t) => t.id === tunnelId && t.account_tag === accountId && !t.deleted_at);
+    if (!tunnel) throw new MockApiError(404, 1003, `Tunnel not found: ${tunnelId}`);
+    return tunnel;
+  };
+
+  const matchesComment = (record: MockDnsRecord, query: URLSearchParams) => {
+    const comment = record.comment ?? "";
+    const exact = query.get("comment") ?? query.get("comment.exact");
+    if (exact !== null && comment !== exact) return false;
+    const startsWith = query.get("comment.startswith");
+    if (startsWith !== null && !comment.startsWith(startsWith)) return false;
+    const contains = query.get("comment.contains");
+    if (contains !== null && !comment.includes(contains)) return false;
+    return true;
+  };
+
+  const routes: Array<[string, RegExp, RouteHandler]> = [
+    ["GET", /^\/accounts$/, () => ({ result: state.accounts })],
+
+    ["GET", /^\/user\/tokens\/verify$/, () => ({ result: { id: "mock-token", status: "active" } })],
+
+    ["GET", /^\/accounts\/([^/]+)\/tokens\/verify$/, () => ({ result: { id: "mock-token", status: "active" } })],
+
+    ["GET", /^\/zones$/, (_params, query) => {
+      const name = query.get("name");
+      const accountId = query.get("account.id");
+      return {
+        result: state.zones.filter((zone) =>
+          (name === null || zone.name === name) &&
+          (accountId === null || zone.account.id === accountId)
+        ),
+      };
+    }],
+
+    ["GET", /^\/zones\/([^/]+)$/, ([zoneId]) => ({ result: findZone(zoneId!) })],
+
+    ["GET", /^\/accounts\/([^/]+)\/cfd_tunnel$/, ([accountId], query) => {
+      const name = query.get("name");
+      const isDeleted = query.get("is_deleted");
+      return {
+        result: state.tunnels.filter((tunnel) =>
+          tunnel.account_tag === accountId &&
+          (name === null || tunnel.name === name) &&
+          (isDeleted === "true" ? !!tunnel.deleted_at : !tunnel.deleted_at)
+        ),
+      };
+    }],
+
+    ["POST", /^\/accounts\/([^/]+)\/cfd_tunnel$/, ([accountId], _query, body) => {
+      if (!state.accounts.some((account) => account.id === accountId)) {
+        throw new MockApiError(404, 1002, `Account not found: ${accountId}`);
+      }
+      if (state.tunnels.some((t) => t.account_tag === accountId && t.name === body?.name && !t.deleted_at)) {
+        throw new MockApiError(409, 1013, `You already have a tunnel with the name ${body?.name}`);
+      }
+      const tunnel: MockTunnel = {
+        id: randomUUID(),
+        name: String(body?.name),
+        account_tag: accountId!,
+        created_at: new Date().toISOString(),
+        deleted_at: null,
+        config_src: body?.config_src ?? "local",
+        remote_config: body?.config_src === "cloudflare",
+        connections: [],
+      };
+      state.tunnels.push(tunnel);
+      return { result: tunnel };
+    }],
+
+    ["GET", /^\/accounts\/([^/]+)\/cfd_tunnel\/([^/]+)$/, ([accountId, tunnelId]) => ({
+      result: findTunnel(accountId!, tunnelId!),
+    })],
+
+    ["DELETE", /^\/accounts\/([^/]+)\/cfd_tunnel\/([^/]+)$/, ([accountId, tunnelId]) => {
+      const tunnel = findTunnel(accountId!, tunnelId!);
+      tunnel.deleted_at = new Date().toISOString();
+      return { result: tunnel };
+    }],
+
+    ["GET", /^\/accounts\/([^/]+)\/cfd_tunnel\/([^/]+)\/connections$/, ([accountId, tunnelId]) => ({
+      result: findTunnel(accountId!, tunnelId!).connections,
+    })],
+
+    ["DELETE", /^\/accounts\/([^/]+)\/cfd_tunnel\/([^/]+)\/connections$/, ([accountId, tunnelId]) => {
+      findTunnel(accountId!, tunnelId!).connections = [];
+      return { result: null };
+    }],
+
+    ["GET", /^\/accounts\/([^/]+)\/cfd_tunnel\/([^/]+)\/configurations$/, ([accountId, tunnelId]) => {
+      findTunnel(accountId!, tunnelId!);
+      return { result: { tunnel_id: tunnelId, config: state.tunnelConfigurations[tunnelId!] ?? null } };
+    }],
+
+    ["PUT", /^\/accounts\/([^/]+)\/cfd_tunnel\/([^/]+)\/configurations$/, ([accountId, tunnelId], _query, body) => {
+      findTunnel(accountId!, tunnelId!);
+      state.tunnelConfigurations[tunnelId!] = body?.config;
+      return { result: { tunnel_id: tunnelId, config: body?.config } };
+    }],
+
+    ["GET", /^\/accounts\/([^/]+)\/cfd_tunnel\/([^/]+)\/token$/, ([accountId, tunnelId]) => {
+      findTunnel(accountId!, tunnelId!);
+      const token = Buffer.from(JSON.stringify({ a: accountId, t: tunnelId, s: "mock-secret" })).toString("base64");
+      return { result: token };
+    }],
+
+    ["GET", /^\/zones\/([^/]+)\/dns_records$/, ([zoneId], query) => {
+      findZone(zoneId!);
+      const type = query.get("type");
+      const name = query.get("name");
+      return {
+        result: state.dnsRecords.filter((record) =>
+          record.zone_id === zoneId &&
+          (type === null || record.type === type) &&
+          (name === null || record.name === name) &&
+          matchesComment(record, query)
+        ),
+      };
+    }],
+
+    ["POST", /^\/zones\/([^/]+)\/dns_records$/, ([zoneId], _query, body) => {
+      findZone(zoneId!);
+      const record: MockDnsRecord = {
+        id: randomUUID().replace(/-/g, ""),
+        zone_id: zoneId!,
+        type: String(body?.type),
+        name: String(body?.name),
+        content: String(body?.content),
+        proxied: !!body?.proxied,
+        comment: body?.comment ?? null,
+      };
+      state.dnsRecords.push(record);
+      return { result: record };
+    }],
+
+    ["DELETE", /^\/zones\/([^/]+)\/dns_records\/([^/]+)$/, ([zoneId, recordId]) => {
+      const index = state.dnsRecords.findIndex((record) => record.zone_id === zoneId && record.id === recordId);
+      if (index === -1) throw new MockApiError(404, 81044, `Record not found: ${recordId}`);
+      state.dnsRecords.splice(index, 1);
+      return { result: { id: recordId } };
+    }],
+
+    ["GET", /^\/zones\/([^/]+)\/ssl\/certificate_packs$/, ([zoneId]) => {
+      findZone(zoneId!);
+      return { result: state.certificatePacks.filter((pack) => pack.zone_id === zoneId) };
+    }],
+
+    ["POST", /^\/zones\/([^/]+)\/ssl\/certificate_packs\/order$/, ([zoneId], _query, body) => {
+      findZone(zoneId!);
+      const pack: MockCertificatePack = {
+        id: randomUUID(),
+        zone_id: zoneId!,
+        type: body?.type ?? "advanced",
+        hosts: Array.isArray(body?.hosts) ? body.hosts : [],
+        status: "initializing",
+        certificate_authority: body?.certificate_authority,
+        validation_method: body?.validation_method,
+        validity_days: body?.validity_days,
+      };
+      state.certificatePacks.push(pack);
+      return { result: pack };
+    }],
+
+    ["DELETE", /^\/zones\/([^/]+)\/ssl\/certificate_packs\/([^/]+)$/, ([zoneId, packId]) => {
+      const index = state.certificatePacks.findIndex((pack) => pack.zone_id === zoneId && pack.id === packId);
+      if (index === -1) throw new MockApiError(404, 1404, `Certificate pack not found: ${packId}`);
+      state.certificatePacks.splice(index, 1);
+      return { result: { id: packId } };
+    }],
+
+    ["GET", /^\/zones\/([^/]+)\/acm\/total_tls$/, ([zoneId]) => {
+      findZone(zoneId!);
+      return { result: state.totalTls[zoneId!] ?? { enabled: false, certificate_authority: null, validity_period: null } };
+    }],
+
+    ["POST", /^\/zones\/([^/]+)\/acm\/total_tls$/, ([zoneId], _query, body) => {
+      findZone(zoneId!);
+      state.totalTls[zoneId!] = {
+        enabled: !!body?.enabled,
+        certificate_authority: body?.certificate_authority ?? null,
+        validity_period: body?.validity_period ?? null,
+      };
+      return { result: state.totalTls[zoneId!] };
+    }],
+
+    ["GET", /^\/accounts\/([^/]+)\/access\/apps$/, ([accountId]) => ({
+      result: state.accessApplications.filter((app) => app.account_id === accountId),
+    })],
+
+    ["POST", /^\/accounts\/([^/]+)\/access\/apps$/, ([accountId], _query, body) => {
+      const app: MockAccessApplication = { ...body, id: randomUUID(), account_id: accountId! };
+      state.accessApplications.push(app);
+      return { result: app };
+    }],
+
+    ["PUT", /^\/accounts\/([^/]+)\/access\/apps\/([^/]+)$/, ([accountId, appId], _query, body) => {
+      const index = state.accessApplications.findIndex((app) => app.id === appId && app.account_id === accountId);
+      if (index === -1) throw new MockApiError(404, 12130, `Access application not found: ${appId}`);
+      state.accessApplications[index] = { ...body, id: appId!, account_id: accountId! };
+      return { result: state.accessApplications[index] };
+    }],
+
+    ["DELETE", /^\/accounts\/([^/]+)\/access\/apps\/([^/]+)$/, ([accountId, appId]) => {
+      const index = state.accessApplications.findIndex((app) => app.id === appId && app.account_id === accountId);
+      if (index === -1) throw new MockApiError(404, 12130, `Access application not found: ${appId}`);
+      state.accessApplications.splice(index, 1);
+      return { result: { id: appId } };
+    }],
+  ];
+
+  // List endpoints return one page plus `result_info`, like the real API
+  const paginate = (items: unknown[], query: URLSearchParams) => {
+    const perPage = Math.max(1, Number(query.get("per_page")) || DEFAULT_PER_PAGE);
+    const page = Math.max(1, Number(query.get("page")) || 1);
+    return {
+      result: items.slice((page - 1) * perPage, page * perPage),
+      result_info: {
+        page,
+        per_page: perPage,
+        count: Math.min(perPage, Math.max(0, items.length - (page - 1) * perPage)),
+        total_count: items.length,
+        total_pages: Math.max(1, Math.ceil(items.length / perPage)),
+      },
+    };
+  };
+
+  const respond = (status: number, payload: unknown) =>
+    new Response(JSON.stringify(payload), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+
+  const mockFetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(typeof input === "string" || input instanceof URL ? input.toString() : input.url);
+    const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+    const path = url.pathname.replace(new URL(MOCK_BASE_URL).pathname, "") || "/";
+    const rawBody = typeof init?.body === "string" ? init.body : undefined;
+    const body = rawBody ? JSON.parse(rawBody) : undefined;
+    requests.push({ method, path: path + url.search, body });
+
+    for (const [routeMethod, pattern, handler] of routes) {
+      const match = routeMethod === method ? pattern.exec(path) : null;
+      if (!match) continue;
+      try {
+        const { status = 200, result } = await handler(match.slice(1).map(decodeURIComponent), url.searchParams, body);
+        if (Array.isArray(result)) {
+          return respond(status, { success: true, errors: [], messages: [], ...paginate(result, url.searchParams) });
+        }
+        return respond(status, { success: true, errors: [], messages: [], result });
+      } catch (error) {
+        if (error instanceof MockApiError) {
+          return respond(error.status, {
+            success: false,
+            errors: [{ code: error.code, message: error.message }],
+            messages: [],
+            result: null,
+          });
+        }
+        throw error;
+      }
+    }
+
+    return respond(404, {
+      success: false,
+      errors: [{ code: 7003, message: `No route for ${method} ${path}` }],
+      messages: [],
+      result: null,
+    });
+  }) as typeof fetch;
+
+  return {
+    apiBaseUrl: MOCK_BASE_URL,
+    fetch: mockFetch,
+    options: { apiBaseUrl: MOCK_BASE_URL, fetch: mockFetch },
+    state,
+    requests,
+  };
+}
@@ -6,6 +6,32 @@
  */
 
 declare module 'virtual:vite-plugin-cloudflare-tunnel' {
+  /**
+   * Lifecycle state of the tunnel.
+   * - `starting`: cloudflared is being set up or has not registered a connection yet
+   * - `connected`: at least one edge connection is registered
+   * - `reconnecting`: the connection dropped and the plugin is bringing it back
+   * - `down`: cloudflared is not running
+   * - `disabled`: the plugin was configured with `enabled: false`
+   */
+  export type TunnelStatus = 'starting' | 'connected' | 'reconnecting' | 'down' | 'disabled';
+
+  /**
+   * Connector health read from cloudflared's local metrics server.
+   */
+  export interface TunnelMetrics {
+    /** Edge connections cloudflared reports as ready */
+    readyConnections: number;
+    /** Requests proxied since cloudflared started */
+    totalRequests: number;
+    /** Requests that could not be proxied to the dev server */
+    requestErrors: number;
+    /** `requestErrors / totalRequests` (0 before the first request) */
+    errorRate: number;
+    /** ISO timestamp of the last successful poll */
+    updatedAt: string;
+  }
+
   /**
    * Get the current tunnel URL.
    * 
@@ -13,7 +39,8 @@ declare module 'virtual:vite-plugin-cloudflare-tunnel' {
    * - In quick tunnel mode: Returns a random `https://xyz.trycloudflare.com` URL
    * - In named tunnel mode: Returns your custom domain URL (e.g., `https://dev.example.com`)
    * 
-   * The URL is automatically updated if the local port changes or the tunnel is restarted.
+   * The URL is kept up to date over Vite's HMR channel, so it reflects quick
+   * tunnel restarts (e.g. after a port change) without a full page reload.
    * 
    * @returns The current tunnel URL as a string
    * 
@@ -37,4 +64,72 @@ declare module 'virtual:vite-plugin-cloudflare-tunnel' {
    * In production builds, this virtual module will not be available.
    */
   export function getTunnelUrl(): `https://${string}`;
-}
\ No newline at end of file
+
+  /**
+   * Get the current tunnel status.
+   *
+   * @example
+   * ```typescript
+   * import { getTunnelStatus } from 'virtual:vite-plugin-cloudflare-tunnel';
+   *
+   * if (getTunnelStatus() !== 'connected') {
+   *   console.warn('Tunnel is not connected yet');
+   * }
+   * ```
+   */
+  export function getTunnelStatus(): TunnelStatus;
+
+  /**
+   * Get the latest connector health reported by cloudflared.
+   *
+   * Updated over HMR whenever the connection count or request totals change.
+   *
+   * @returns The metrics, or `null` before the first poll. A dev server attached to a persistent daemon reports the daemon's metrics
+   *
+   * @example
+   * ```typescript
+   * import { getTunnelMetrics } from 'virtual:vite-plugin-cloudflare-tunnel';
+   *
+   * const metrics = getTunnelMetrics();
+   * if (metrics && metrics.errorRate > 0.1) {
+   *   console.warn(`${metrics.requestErrors} tunnel requests failed`);
+   * }
+   * ```
+   */
+  export function getTunnelMetrics(): TunnelMetrics | null;
+
+  /**
+   * Subscribe to tunnel URL changes.
+   *
+   * @param callback - Called with the new and previous URL whenever the URL changes
+   * @returns A function that removes the subscription
+   *
+   * @example
+   * ```typescript
+   * import { onTunnelUrlChange } from 'virtual:vite-plugin-cloudflare-tunnel';
+   *
+   * const unsubscribe = onTunnelUrlChange((url) => {
+   *   document.getElementById('share')!.textContent = url;
+   * });
+   * ```
+   */
+  export function onTunnelUrlChange(callback: (url: string, previousUrl: string) => void): () => void;
+
+  /**
+   * Wait until the tunnel has a registered edge connection.
+   *
+   * Resolves immediately when the tunnel is already connected (or the plugin
+   * is disabled, in which case the URL is an empty string).
+   *
+   * @returns A promise resolving with the tunnel URL
+   *
+   * @example
+   * ```typescript
+   * import { whenTunnelReady } from 'virtual:vite-plugin-cloudflare-tunnel';
+   *
+   * const url = await whenTunnelReady();
+   * await fetch('/api/register-webhook', { method: 'POST', body: url });
+   * ```
+   */
+  export function whenTunnelReady(): Promise<string>;
+}